@@ -0,0 +1,22 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import { read } from 'read-last-lines';
+
+import { AuditEntry } from './interfaces';
+
+export class AuditLog {
+  constructor(private _file: string, private _silent: boolean) { }
+
+  public record(entry: AuditEntry) {
+    if (!this._silent) console.info(`[INFO] Audit: ${entry.actor} ${entry.action}${entry.target ? ` ${entry.target}` : ''} (from ${entry.ip})`);
+    fsp.appendFile(this._file, `${JSON.stringify(entry)}\n`, { encoding: 'utf8' })
+      .catch(error => console.error(`[ERROR] Failed to write audit log entry because: `, error));
+  }
+
+  public async read(limit: number): Promise<AuditEntry[]> {
+    if (!fs.existsSync(this._file)) return [];
+
+    const content = limit ? await read(this._file, limit) : await fsp.readFile(this._file, { encoding: 'utf8' });
+    return content.split('\n').filter(x => !!x.trim()).map(x => JSON.parse(x) as AuditEntry);
+  }
+}
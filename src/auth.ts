@@ -0,0 +1,155 @@
+import crypto from 'node:crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+import { ApiToken, AuthKeys, Identity, TokenScope } from './interfaces';
+
+export const apiKeyHeader = 'x-api-key';
+export const sessionCookie = 'jmeter-runner-session';
+export const anonymous = 'anonymous';
+
+const rateLimitWindowInMilliseconds = 60000;
+const hashPattern = /^(?:sha256:)?([0-9a-f]{64})$/i;
+
+interface Session {
+  token: ApiToken;
+  expires: number;
+}
+
+interface Usage {
+  start: number;
+  count: number;
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class Authenticator {
+  private _tokens: ApiToken[];
+  private _sessions: { [key: string]: Session } = {};
+  private _usage: { [key: string]: Usage } = {};
+  private _identities = new WeakMap<FastifyRequest, Identity>();
+
+  constructor(tokens: ApiToken[], keys: AuthKeys, private _sessionTimeoutInSeconds: number) {
+    const invalid = tokens.filter(x => !x.name || !hashPattern.test(x.hash || '') || !Array.isArray(x.scopes) || x.scopes.some(s => !Object.values(TokenScope).includes(s)));
+    if (invalid.length) {
+      throw new Error(`Invalid API token(s): ${invalid.map(x => x.name || '<unnamed>').join(', ')} (expected a name, a sha256 hash and scopes from: ${Object.values(TokenScope).join(', ')})`);
+    }
+
+    const legacyTokens = [
+      { key: keys.runTest, name: 'run-test-api-key', scope: TokenScope.run },
+      { key: keys.checkTest, name: 'check-test-api-key', scope: TokenScope.check },
+      { key: keys.deleteTest, name: 'delete-test-api-key', scope: TokenScope.delete },
+    ].filter(x => !!x.key).map(x => ({ name: x.name, hash: hashToken(x.key), scopes: [x.scope] } as ApiToken));
+
+    this._tokens = [...tokens.map(x => ({ ...x, hash: hashPattern.exec(x.hash)![1]!.toLowerCase() })), ...legacyTokens];
+  }
+
+  private _find(token: string) {
+    const hash = Buffer.from(hashToken(token), 'hex');
+    return this._tokens.find(x => crypto.timingSafeEqual(Buffer.from(x.hash, 'hex'), hash));
+  }
+
+  private _credentials(request: FastifyRequest) {
+    const apiKey = request.headers[apiKeyHeader];
+    if (typeof apiKey === 'string' && apiKey) return apiKey;
+
+    const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.authorization || '');
+    return bearer?.[1];
+  }
+
+  private _sessionId(request: FastifyRequest) {
+    const cookies = (request.headers.cookie || '').split(';').map(x => x.trim().split('='));
+    return cookies.find(([name]) => name === sessionCookie)?.[1];
+  }
+
+  private _session(request: FastifyRequest) {
+    const id = this._sessionId(request);
+    const session = id ? this._sessions[id] : undefined;
+    if (session && session.expires < Date.now()) {
+      delete this._sessions[id!];
+      return undefined;
+    }
+    return session;
+  }
+
+  private _retryAfter(token: ApiToken) {
+    if (!token.rateLimit) return 0;
+
+    const now = Date.now();
+    const usage = this._usage[token.name];
+    if (!usage || now - usage.start >= rateLimitWindowInMilliseconds) {
+      this._usage[token.name] = { start: now, count: 1 };
+      return 0;
+    }
+
+    usage.count++;
+    return usage.count > token.rateLimit ? Math.ceil((usage.start + rateLimitWindowInMilliseconds - now) / 1000) : 0;
+  }
+
+  private _reject(reply: FastifyReply, status: number, message: string) {
+    reply.status(status).header('content-type', 'text/plain').send(`${message}\n`);
+    return undefined;
+  }
+
+  public isProtected(scope: TokenScope) {
+    return this._tokens.some(x => x.scopes.includes(scope));
+  }
+
+  public authorize(request: FastifyRequest, reply: FastifyReply, scope: TokenScope): Identity | undefined {
+    const credentials = this._credentials(request);
+    const token = credentials ? this._find(credentials) : this._session(request)?.token;
+
+    if (!this.isProtected(scope)) {
+      const identity = token ? { name: token.name, scopes: token.scopes } : { name: anonymous, scopes: Object.values(TokenScope) };
+      this._identities.set(request, identity);
+      return identity;
+    }
+
+    if (!token) {
+      return this._reject(reply, 401, `Unauthorized, pass a valid API token using the '${apiKeyHeader}' header or log in using 'POST /login'`);
+    }
+    if (!token.scopes.includes(scope)) {
+      return this._reject(reply, 403, `Forbidden, API token '${token.name}' has no '${scope}' scope`);
+    }
+
+    const retryAfter = this._retryAfter(token);
+    if (retryAfter) {
+      reply.header('retry-after', `${retryAfter}`);
+      return this._reject(reply, 429, `Too many requests for API token '${token.name}', retry after ${retryAfter} second(s)`);
+    }
+
+    const identity = { name: token.name, scopes: token.scopes };
+    this._identities.set(request, identity);
+    return identity;
+  }
+
+  public identityOf(request: FastifyRequest): Identity | undefined {
+    return this._identities.get(request);
+  }
+
+  public createSession(token: string) {
+    const found = this._find(token);
+    if (!found) return undefined;
+
+    const now = Date.now();
+    Object.keys(this._sessions).filter(x => this._sessions[x]!.expires < now).forEach(x => delete this._sessions[x]);
+
+    const id = crypto.randomBytes(32).toString('hex');
+    this._sessions[id] = { token: found, expires: now + this._sessionTimeoutInSeconds * 1000 };
+    return {
+      identity: { name: found.name, scopes: found.scopes } as Identity,
+      cookie: `${sessionCookie}=${id}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${this._sessionTimeoutInSeconds}`,
+    };
+  }
+
+  public deleteSession(request: FastifyRequest) {
+    const id = this._sessionId(request);
+    const session = id ? this._sessions[id] : undefined;
+    if (id) delete this._sessions[id];
+    return {
+      identity: session && { name: session.token.name, scopes: session.token.scopes } as Identity,
+      cookie: `${sessionCookie}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`,
+    };
+  }
+}
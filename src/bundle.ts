@@ -0,0 +1,177 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import yauzl from 'yauzl';
+import { Parser, ReadEntry } from 'tar';
+
+import { BadRequestError } from './errors';
+import { BundleFile, BundleLimits, TestBundle } from './interfaces';
+
+export const zipContentTypes = ['application/zip', 'application/x-zip-compressed'];
+export const tarContentTypes = ['application/gzip', 'application/x-gzip', 'application/x-tar', 'application/x-gtar', 'application/x-compressed-tar'];
+
+const testPlanExtension = '.jmx';
+const preferredTestPlan = 'test.jmx';
+
+export function safeEntryName(name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/'));
+  if (!normalized || normalized === '.' || normalized.includes('\0') || path.posix.isAbsolute(normalized)
+    || /^[a-zA-Z]:/.test(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new BadRequestError(`Invalid bundle entry '${name}'`);
+  }
+  return normalized.replace(/\/$/, '');
+}
+
+class SizeTracker {
+  private _total = 0;
+
+  constructor(private _limits: BundleLimits) { }
+
+  add(name: string, size: number) {
+    this._total += size;
+    if (this._total > this._limits.maxExtractedSize) {
+      throw new BadRequestError(`Bundle exceeds the maximum extracted size of ${this._limits.maxExtractedSize} bytes (at entry '${name}')`);
+    }
+  }
+}
+
+function nextZipEntry(zip: yauzl.ZipFile): Promise<yauzl.Entry | undefined> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      zip.off('entry', onEntry);
+      zip.off('end', onEnd);
+      zip.off('error', onError);
+    };
+    const onEntry = (entry: yauzl.Entry) => (cleanup(), resolve(entry));
+    const onEnd = () => (cleanup(), resolve(undefined));
+    const onError = (error: Error) => (cleanup(), reject(error));
+    zip.on('entry', onEntry);
+    zip.on('end', onEnd);
+    zip.on('error', onError);
+    zip.readEntry();
+  });
+}
+
+export async function extractZip(buffer: Buffer, limits: BundleLimits): Promise<BundleFile[]> {
+  const tracker = new SizeTracker(limits);
+  const files: BundleFile[] = [];
+
+  let zip: yauzl.ZipFile;
+  try {
+    zip = await yauzl.fromBufferPromise(buffer, { lazyEntries: true, validateEntrySizes: true });
+  } catch (error: any) {
+    throw new BadRequestError(`Invalid zip bundle: ${error.message}`);
+  }
+
+  try {
+    for (let entry = await nextZipEntry(zip); entry; entry = await nextZipEntry(zip)) {
+      const name = safeEntryName(entry.fileName);
+      if (entry.fileName.endsWith('/')) continue;
+
+      tracker.add(name, entry.uncompressedSize);
+      const chunks: Buffer[] = [];
+      for await (const chunk of await zip.openReadStreamPromise(entry)) {
+        chunks.push(chunk as Buffer);
+      }
+      files.push({ name: name, content: Buffer.concat(chunks) });
+    }
+  } catch (error: any) {
+    throw error instanceof BadRequestError ? error : new BadRequestError(`Invalid zip bundle: ${error.message}`);
+  } finally {
+    zip.close();
+  }
+  return files;
+}
+
+export function extractTar(buffer: Buffer, limits: BundleLimits): Promise<BundleFile[]> {
+  const tracker = new SizeTracker(limits);
+  return new Promise((resolve, reject) => {
+    const files: BundleFile[] = [];
+    let failure: Error | undefined;
+
+    const parser = new Parser({
+      strict: true,
+      onReadEntry: (entry: ReadEntry) => {
+        try {
+          if (failure || entry.type === 'Directory') {
+            return entry.resume();
+          }
+          const name = safeEntryName(entry.path);
+          if (entry.type !== 'File' && entry.type !== 'OldFile') {
+            throw new BadRequestError(`Unsupported bundle entry '${name}' (type: ${entry.type})`);
+          }
+          tracker.add(name, entry.size);
+          const chunks: Buffer[] = [];
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => files.push({ name: name, content: Buffer.concat(chunks) }));
+        } catch (error: any) {
+          failure = failure || error;
+          entry.resume();
+        }
+      },
+    });
+
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      const failed = failure || error;
+      if (failed) {
+        reject(failed);
+      } else {
+        resolve(files);
+      }
+    };
+    const invalid = (error: Error) => settle(new BadRequestError(`Invalid tar bundle: ${error.message}`));
+
+    parser.on('error', invalid);
+    parser.on('abort', invalid);
+    parser.on('end', () => settle());
+    parser.on('close', () => settle(new BadRequestError('Invalid tar bundle: unexpected end of archive')));
+    parser.end(buffer);
+  });
+}
+
+export async function extractArchive(name: string, buffer: Buffer, limits: BundleLimits): Promise<BundleFile[] | undefined> {
+  if (/\.zip$/i.test(name)) return extractZip(buffer, limits);
+  if (/\.(tar|tgz|tar\.gz)$/i.test(name)) return extractTar(buffer, limits);
+  return undefined;
+}
+
+function stripSingleRootFolder(files: BundleFile[]) {
+  const hasRootTestPlan = files.some(x => !x.name.includes('/') && x.name.endsWith(testPlanExtension));
+  const roots = new Set(files.map(x => x.name.split('/')[0]));
+  if (hasRootTestPlan || roots.size !== 1 || files.some(x => !x.name.includes('/'))) {
+    return files;
+  }
+  const root = `${[...roots][0]}/`;
+  return files.map(x => ({ ...x, name: x.name.substring(root.length) }));
+}
+
+export function createBundle(entries: BundleFile[]): TestBundle {
+  const files = stripSingleRootFolder(entries);
+  const testPlans = files.filter(x => !x.name.includes('/') && x.name.endsWith(testPlanExtension));
+  const testPlan = testPlans.find(x => x.name === preferredTestPlan) || (testPlans.length === 1 ? testPlans[0] : undefined);
+  if (!testPlan) {
+    throw new BadRequestError(testPlans.length
+      ? `Bundle contains multiple test plans (${testPlans.map(x => x.name).join(', ')}), name the one to run '${preferredTestPlan}'`
+      : `Bundle does not contain a test plan (*${testPlanExtension}) in its root folder`);
+  }
+  return { test: testPlan.content.toString('utf8'), files: files.filter(x => x !== testPlan) };
+}
+
+export async function writeBundleFiles(folder: string, files: BundleFile[]) {
+  for (const file of files) {
+    const fullPathName = path.join(folder, safeEntryName(file.name));
+    await fsp.mkdir(path.dirname(fullPathName), { recursive: true });
+    await fsp.writeFile(fullPathName, file.content);
+  }
+}
+
+export async function readBundleFiles(folder: string): Promise<BundleFile[]> {
+  if (!fs.existsSync(folder)) return [];
+
+  const entries = await fsp.readdir(folder, { withFileTypes: true, recursive: true });
+  const files = entries.filter(x => x.isFile()).map(x => path.join(x.parentPath, x.name));
+  return Promise.all(files.map(async x => ({ name: path.relative(folder, x).split(path.sep).join('/'), content: await fsp.readFile(x) })));
+}
@@ -0,0 +1,50 @@
+import { BaselineTolerance, ComparisonMetric, LabelComparison, LabelStatistics, MetricComparison, TestRunComparison, TestRunSummary } from './interfaces';
+
+const latencyMetrics: ComparisonMetric[] = ['mean', 'p50', 'p90', 'p95', 'p99'];
+
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+function compareMetric(metric: ComparisonMetric, baseline: number, current: number, tolerance: BaselineTolerance): MetricComparison {
+  const delta = current - baseline;
+  const change = baseline ? delta / baseline : undefined;
+
+  let regression: boolean;
+  if (metric === 'errorRate') {
+    regression = delta > tolerance.errorRate;
+  } else if (metric === 'throughput') {
+    regression = change !== undefined && change < -tolerance.throughput;
+  } else {
+    regression = change !== undefined && change > tolerance.latency;
+  }
+
+  return { metric: metric, baseline: baseline, current: current, delta: round(delta), change: change === undefined ? undefined : round(change), regression: regression };
+}
+
+function compareLabel(label: string, baseline: LabelStatistics | undefined, current: LabelStatistics | undefined, tolerance: BaselineTolerance): LabelComparison {
+  if (!baseline || !current) {
+    return { label: label, missing: baseline ? 'current' : 'baseline', metrics: [], regression: false };
+  }
+
+  const metrics = [...latencyMetrics, 'errorRate', 'throughput'] as ComparisonMetric[];
+  const comparisons = metrics.map(x => compareMetric(x, baseline[x], current[x], tolerance));
+  return { label: label, metrics: comparisons, regression: comparisons.some(x => x.regression) };
+}
+
+export function compareSummaries(current: TestRunSummary, baseline: TestRunSummary, tolerance: BaselineTolerance): TestRunComparison {
+  const labels = [...new Set([...baseline.labels.map(x => x.label), ...current.labels.map(x => x.label)])];
+  const comparisons = labels.map(label => compareLabel(label, baseline.labels.find(x => x.label === label), current.labels.find(x => x.label === label), tolerance));
+  const total = compareLabel(current.total.label, baseline.total, current.total, tolerance);
+
+  return {
+    id: current.id,
+    baseline: baseline.id,
+    category: current.category,
+    name: current.name,
+    tolerance: tolerance,
+    regression: total.regression || comparisons.some(x => x.regression),
+    total: total,
+    labels: comparisons,
+  } as TestRunComparison;
+}
@@ -5,19 +5,57 @@ import Mustache from 'mustache';
 import _ from 'lodash';
 import { v4 as uuidv4 } from 'uuid';
 import * as cp from 'node:child_process';
-import { XMLParser } from "fast-xml-parser";
+import readline from 'node:readline';
+import { EventEmitter } from 'node:events';
 import { read } from 'read-last-lines';
 
-import { JMeterTest, TestRun, TestRunStatus, ControllerConfig } from "./interfaces";
+import { Baseline, BaselineTolerance, BulkAction, BulkOperationReport, BulkOperationRun, BundleFile, CancelMode, HookFailureAction, HookPhase, JMeterWorker, JMeterWorkerStatus, Properties, TestSchedule, TestScheduleOptions, TestRun, TestRunStatus, TestRunVerdict, ControllerConfig, ControllerStatus, ControllerStatusInfo, TestRunInfo, TestRunLinks, TestRunsOverview, RetentionReport, TestRunSummary, TestRunComparison, TestRunHistory, TestRunHistoryEntry, TestRunFilter, TestRunOptions, TestRunProgress, TestRunStreamEvent, TestPlanDescriptor, WebhookEvent, WebhookPayload } from "./interfaces";
+import { readReport, summarize } from './report';
+import { evaluateThresholds, parseThreshold } from './thresholds';
+import { BadRequestError, ConflictError, NotFoundError } from './errors';
+import { writeBundleFiles } from './bundle';
+import { Scheduler } from './scheduler';
+import { WebhookNotifier } from './webhooks';
+import { parseSummaryLine } from './progress';
+import { compareSummaries } from './comparison';
+import { describeTestPlan } from './descriptor';
+import { WorkerPool, remoteArguments } from './workers';
+import { Watchdog } from './watchdog';
+import { ResumeCondition } from './resume';
+import { HookOutcome, HookRunner, hooksLogName } from './hooks';
+import { TestRunMetrics } from './metrics';
+import { selectExpiredRuns } from './retention';
+import { estimateStartTimes, laneOf, selectRunnableTests } from './lanes';
+import { ResultStorage, StoredContent, createStorage, requestConcurrency } from './storage';
 import { Gauge } from 'prom-client';
 
 export const metadataName = 'metadata.json';
 const testName = 'test.jmx';
+const estimationRuns = 10;
+const bulkActionStatus: { [x in BulkAction]: TestRunStatus[] } = {
+  [BulkAction.cancel]: [TestRunStatus.queued, TestRunStatus.running],
+  [BulkAction.delete]: [TestRunStatus.queued, TestRunStatus.running, TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout],
+  [BulkAction.requeue]: [TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout],
+};
 const reportName = 'report.jtl';
 const outputName = 'output.log';
+const summaryName = 'summary.json';
+const controllerStateName = 'controller.json';
+const baselinesName = 'baselines.json';
+const workersName = 'workers.json';
+const schedulesFolder = 'schedules';
+const reservedFolders = [schedulesFolder];
 const resultsFolder = 'results';
 const statusTemplate = 'status.html';
 const overviewTemplate = 'overview.html';
+const comparisonTemplate = 'comparison.html';
+const historyTemplate = 'history.html';
+const historyChartWidth = 600;
+const historyChartHeight = 150;
+const jmeterLogName = 'jmeter.log';
+const reservedNames = [testName, reportName, outputName, metadataName, summaryName, jmeterLogName, resultsFolder, hooksLogName];
+const apiPrefix = '/api';
+const propertyNamePattern = /^[\w.-]+$/;
 
 interface Test {
   run: TestRun;
@@ -30,34 +68,79 @@ interface TestRunDatabase {
 
 type Labels = { [x in string]: string | undefined };
 
-enum ControllerStatus {
-  idle = 'IDLE',
-  running = 'RUNNING',
-  paused = 'PAUSED',
-}
+export type TestRunStreamListener = (event: TestRunStreamEvent) => void;
 
 export class Controller {
-  private _status: ControllerStatus = ControllerStatus.idle;
+  private _paused = false;
   private _testsById: TestRunDatabase = {};
-  private _testParser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '_', textNodeName: '_text' });
   private _testDuration?: Gauge;
+  private _metrics: TestRunMetrics;
   private _statusTemplate: string | undefined = undefined;
   private _overviewTemplate: string | undefined = undefined;
+  private _comparisonTemplate: string | undefined = undefined;
+  private _historyTemplate: string | undefined = undefined;
+  private _baselines: Baseline[] = [];
+  private _sweeper: NodeJS.Timeout | undefined;
+  private _scheduler: Scheduler;
+  private _workers: WorkerPool;
+  private _resumeCondition: ResumeCondition;
+  private _hooks: HookRunner;
+  private _storage: ResultStorage;
+  private _notifier: WebhookNotifier;
+  private _streams = new EventEmitter().setMaxListeners(0);
+  private _progressById: { [key: string]: TestRunProgress } = {};
+  private _watchdogs: { [key: string]: Watchdog } = {};
+  private _setups: { [key: string]: AbortController } = {};
 
   private get status() {
-    return this._status;
+    if (this._paused) return ControllerStatus.paused;
+    return this.runningCount ? ControllerStatus.running : ControllerStatus.idle;
   }
 
   private set status(status: ControllerStatus) {
     console.debug(`[DEBUG] setting controller status to ${status}`);
-    this._status = status;
+    const wasPaused = this._paused;
+    this._paused = status === ControllerStatus.paused;
+    this._writeControllerState();
+    if (this._paused) {
+      this._resumeCondition.start();
+    } else {
+      this._resumeCondition.stop();
+    }
+    if (wasPaused !== this._paused) {
+      this._notify(this._paused ? WebhookEvent.runnerPaused : WebhookEvent.runnerResumed);
+    }
+    this._runQueuedTests();
+  }
 
-    if (status === ControllerStatus.idle) {
-      const firstQueued = this._testRunsByTimestamp([TestRunStatus.queued]).shift();
-      if (firstQueued) {
-        console.debug(`[DEBUG] running queued test ${firstQueued.id}`);
-        this._runTest(firstQueued);
-      }
+  private _notify(event: WebhookEvent, run?: TestRun, details: Partial<WebhookPayload> = {}) {
+    const payload: WebhookPayload = { event: event, timestamp: new Date().toISOString(), status: this.status, ...details };
+    if (run) {
+      payload.run = run;
+      payload.links = this._testRunLinks(run, '/test', this._config.publicUrl);
+    }
+    this._notifier.notify(payload);
+  }
+
+  private _publish(id: string, event: TestRunStreamEvent) {
+    if (event.event === 'progress') {
+      this._progressById[id] = event.data;
+    }
+    this._streams.emit(id, event);
+  }
+
+  private _endStream(run: TestRun) {
+    this._publish(run.id, { event: 'end', data: { status: run.status } });
+    delete this._progressById[run.id];
+  }
+
+  private _runQueuedTests() {
+    if (this._paused) return;
+
+    const running = this._testRunsByTimestamp([TestRunStatus.running]);
+    for (const queued of selectRunnableTests(running, this._queuedTestRuns(), this._config.maxRunning, x => this._workers.isHealthy(x))) {
+      console.debug(`[DEBUG] running queued test ${queued.id} (lane: ${laneOf(queued) ?? 'none'}${queued.workers?.length ? `, workers: ${queued.workers.join(', ')}` : ''})`);
+      this._runTest(queued);
     }
   }
 
@@ -78,30 +161,105 @@ export class Controller {
     return (await fsp.readdir(source, { withFileTypes: true })).filter(x => x.isDirectory()).map(x => x.name);
   }
 
-  private _importTest(id: string) {
-    const metadata = path.join(this._config.testFolder, id, metadataName);
+  private _readMetadata(folder: string, id: string): TestRun | undefined {
+    const metadata = path.join(folder, id, metadataName);
     if (fs.existsSync(metadata)) {
       const fd = fs.openSync(metadata, 'r');
       try {
         const content = fs.readFileSync(fd, { encoding: 'utf8' });
-        const run = JSON.parse(content) as TestRun;
-        if (run.status === TestRunStatus.running) {
-          run.status = TestRunStatus.cancelled; // just in case
-        }
-        this._upsertTest({ run: run, process: undefined } as Test);
+        return JSON.parse(content) as TestRun;
       } finally {
         fs.closeSync(fd);
       }
     }
+    return undefined;
+  }
+
+  private async _importTest(id: string) {
+    const metadata = await this._storage.read(id, metadataName);
+    const run = metadata ? JSON.parse(metadata.toString('utf8')) as TestRun : undefined;
+    if (run) {
+      if (run.status === TestRunStatus.running) {
+        run.status = TestRunStatus.cancelled; // just in case
+      }
+      this._upsertTest({ run: run, process: undefined } as Test);
+    }
+  }
+
+  private _importTestRun(id: string) {
+    const run = this._readMetadata(this._config.tempFolder, id);
+    if (run?.status === TestRunStatus.queued) {
+      console.info(`[INFO] Restoring queued test ${id}`);
+      this._upsertTest({ run: run, process: undefined } as Test);
+      return;
+    }
+
+    if (run) {
+      const imported = { ...run, status: run.status === TestRunStatus.running ? TestRunStatus.cancelled : run.status } as TestRun;
+      this._upsertTest({ run: imported, process: undefined } as Test);
+      this._writeMetadata(imported);
+    }
+    this._moveToResults(id);
+  }
+
+  private _readControllerState() {
+    const state = path.join(this._config.testFolder, controllerStateName);
+    if (fs.existsSync(state)) {
+      const { status } = JSON.parse(this._read(state)) as { status: ControllerStatus };
+      this._paused = status === ControllerStatus.paused;
+    }
+  }
+
+  private _writeControllerState() {
+    const state = path.join(this._config.testFolder, controllerStateName);
+    this._write(state, JSON.stringify({ status: this._paused ? ControllerStatus.paused : ControllerStatus.idle }));
+  }
+
+  private _readBaselines() {
+    const baselines = path.join(this._config.testFolder, baselinesName);
+    if (fs.existsSync(baselines)) {
+      this._baselines = JSON.parse(this._read(baselines)) as Baseline[];
+    }
+  }
+
+  private _writeBaselines() {
+    const baselines = path.join(this._config.testFolder, baselinesName);
+    this._write(baselines, JSON.stringify(this._baselines));
+  }
+
+  private _baselineOf(run: TestRun) {
+    return this._baselines.find(x => x.category === run.category && x.name === run.name);
+  }
+
+  private async _readSummary(id: string) {
+    const temp = path.join(this._config.tempFolder, id, summaryName);
+    const summary = fs.existsSync(temp) ? await fsp.readFile(temp, { encoding: 'utf8' }) : (await this._storage.read(id, summaryName))?.toString('utf8');
+    return summary ? JSON.parse(summary) as TestRunSummary : undefined;
+  }
+
+  private async _compareWithBaseline(run: TestRun, summary: TestRunSummary) {
+    const baseline = this._baselineOf(run);
+    if (!baseline || baseline.id === run.id) return {};
+
+    const baselineSummary = await this._readSummary(baseline.id);
+    if (!baselineSummary) {
+      console.warn(`[WARN] Cannot compare test ${run.id} with baseline ${baseline.id} because the baseline has no summary`);
+      return {};
+    }
+    const comparison = compareSummaries(summary, baselineSummary, this._config.tolerance);
+    return { baseline: baseline.id, regression: comparison.regression };
   }
 
   private _exportTestRun(run: TestRun) {
     this._writeMetadata(run);
-    this._moveToResults(run.id);
+    return this._moveToResults(run.id);
   }
 
   private _cancelTest(test: Test) {
     const id = test.run.id;
+    const wasPending = [TestRunStatus.queued, TestRunStatus.running].includes(test.run.status);
+    this._stopWatchdog(id);
+    this._setups[id]?.abort();
 
     if (test.process) {
       console.warn(`[WARN] Test ${id} is running...`);
@@ -109,13 +267,55 @@ export class Controller {
       console.warn(`[WARN] Killing pid ${process?.pid}...`);
       const killed = process?.kill();
       console.warn(killed ? `[WARN] Test ${id} was cancelled.` : `Failed to kill test ${id} (pid: ${process?.pid}).`);
+    }
+
+    const cancelled = this._upsertTest({ run: { ...test.run, status: TestRunStatus.cancelled } as TestRun, process: undefined } as Test);
+    if (wasPending) {
+      this._metrics.countTestRun(cancelled.run);
+      this._notify(WebhookEvent.testCancelled, cancelled.run);
+      this._endStream(cancelled.run);
+    }
 
+    if (test.process) {
       // Note: if we kill a process, the system under test (SUT) can be in an invalid state, 
       //       so pause running tests until SUT back in a consistent state and we are resumed.
       this.status = ControllerStatus.paused;
     }
 
-    return this._upsertTest({ run: { ...test.run, status: TestRunStatus.cancelled } as TestRun, process: undefined } as Test);
+    return cancelled;
+  }
+
+  private _failSetup(queued: TestRun, run: TestRun, setup: HookOutcome) {
+    if (setup.action === HookFailureAction.pause) {
+      // note: keep the test run queued, so it is retried once resumed
+      const requeued = this._upsertTest({ run: { ...queued, hooks: setup.results }, process: undefined } as Test).run;
+      this._writeMetadata(requeued);
+      this.status = ControllerStatus.paused;
+      return;
+    }
+
+    const failed = this._upsertTest({ run: { ...run, status: TestRunStatus.cancelled, hooks: setup.results }, process: undefined } as Test).run;
+    this._exportTestRun(failed);
+    this._metrics.countTestRun(failed);
+    this._notify(WebhookEvent.testCancelled, failed);
+    this._endStream(failed);
+    this._runQueuedTests();
+  }
+
+  private _shutdownPort() {
+    const used = Object.values(this._watchdogs).map(x => x.port);
+    let port = this._config.shutdownPort;
+    while (used.includes(port)) port++;
+    return port;
+  }
+
+  private _stopWatchdog(id: string) {
+    const watchdog = this._watchdogs[id];
+    if (!watchdog) return undefined;
+
+    watchdog.stop();
+    delete this._watchdogs[id];
+    return watchdog.outcome;
   }
 
   private _writeMetadata(run: TestRun) {
@@ -123,6 +323,44 @@ export class Controller {
     this._write(metadata, JSON.stringify(run));
   }
 
+  private _updateMetadata(run: TestRun) {
+    const folder = path.join(this._config.tempFolder, run.id);
+    if (fs.existsSync(folder)) {
+      this._write(path.join(folder, metadataName), JSON.stringify(run));
+    } else if ([TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout].includes(run.status)) {
+      this._storage.write(run.id, metadataName, JSON.stringify(run))
+        .catch(error => console.error(`[ERROR] Failed to update metadata of test ${run.id} because: ${error}`));
+    }
+  }
+
+  private async _retainedTestRuns() {
+    const runs = this._testRunsByTimestamp([TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout]);
+    return Promise.all(runs.map(async run => ({
+      run: run,
+      size: (await this._storage.files(run.id)).reduce((a, x) => a + x.size, 0),
+      protected: !!run.pinned || this._baselines.some(x => x.id === run.id),
+    })));
+  }
+
+  private _sweep() {
+    this.applyRetention(false)
+      .then(report => {
+        if (report.runs.length) {
+          console.info(`[INFO] Retention removed ${report.runs.length} test run(s), freeing ${report.freed} bytes`);
+        }
+      })
+      .catch(error => console.error('[ERROR] Failed to apply retention policy because: ', error));
+  }
+
+  private async _writeSummary(run: TestRun, labels: Labels) {
+    const folder = path.join(this._config.tempFolder, run.id);
+    const samples = await readReport(path.join(folder, reportName));
+    const summary = { id: run.id, category: run.category, name: run.name, ...summarize(samples) } as TestRunSummary;
+    this._write(path.join(folder, summaryName), JSON.stringify(summary));
+    this._metrics.observeResults(labels, run, samples, summary);
+    return summary;
+  }
+
   private _read(fullPathName: string) {
     return fs.readFileSync(fullPathName, { encoding: 'utf8' });
   }
@@ -131,25 +369,14 @@ export class Controller {
     fs.writeFileSync(fullPathName, data, { encoding: 'utf8', flush: true });
   }
 
-  private _moveToResults(id: string) {
+  private async _moveToResults(id: string) {
     const tempPath = path.join(this._config.tempFolder, id);
-    const testPath = path.join(this._config.testFolder, id);
-
-    // NOTE: 
-    //   node.js uses chmod to cp the permissions for each file & folder to the destination,
-    //   however this is not permitted on a S3 bucket destination. 
-    // fs.cpSync(tempPath, testPath, { recursive: true });
-    // fs.rmSync(tempPath, { recursive: true });
-    const cmd = `cp -r ${tempPath} ${testPath} && rm -rf ${tempPath}`;
-    cp.exec(cmd, (error: cp.ExecException | null, stdout: string, stderr: string) => {
-      if (error) {
-        console.error(`[ERROR] failed to move test ${id}, please move manually`);
-      } else if (stderr) {
-        console.warn(`[WARN] something went wrong while moving test ${id}: ${stderr}`);
-      } else if (stderr) {
-        console.info(`[INFO] moved test ${id}: ${stdout}`);
-      }
-    })
+    try {
+      await this._storage.store(id, tempPath);
+      console.debug(`[DEBUG] moved test ${id} to ${this._storage.location}`);
+    } catch (error) {
+      console.error(`[ERROR] failed to move test ${id} to ${this._storage.location}, please move manually (${tempPath}) because: ${error}`);
+    }
   }
 
   private _testRunsByTimestamp(filterByStatus?: TestRunStatus[]) {
@@ -159,22 +386,175 @@ export class Controller {
       .sort((f, s) => Date.parse(f.timestamp) - Date.parse(s.timestamp));
   }
 
-  private async _queueTest(body: string, category: string | undefined): Promise<Test> {
+  private _queuedTestRuns() {
+    return _.orderBy(this._testRunsByTimestamp([TestRunStatus.queued]), x => x.priority || 0, 'desc');
+  }
+
+  private _estimateStartTimes(queued: TestRun[]) {
+    const done = this._testRunsByTimestamp([TestRunStatus.done]).filter(x => x.duration !== undefined);
+    if (this._paused || !done.length) return {};
+
+    const fallback = _.mean(done.slice(-estimationRuns).map(x => x.duration!));
+    const durations = _.mapValues(_.groupBy(done, x => x.name), runs => _.mean(runs.slice(-estimationRuns).map(x => x.duration!)));
+    const duration = (run: TestRun) => (durations[run.name] ?? fallback) * 1000;
+    return estimateStartTimes(this._testRunsByTimestamp([TestRunStatus.running]), queued, this._config.maxRunning, duration);
+  }
+
+  private _queuedTestRunInfos(baseUrl: string): TestRunInfo[] {
+    const queued = this._queuedTestRuns();
+    const estimates = this._estimateStartTimes(queued);
+    return queued.map((run, index) => {
+      const info: TestRunInfo = { ...run, position: index + 1, links: this._testRunLinks(run, baseUrl) };
+      if (estimates[run.id]) {
+        info.estimatedStart = estimates[run.id]!;
+      }
+      return info;
+    });
+  }
+
+  private _testRunLinks(run: TestRun, route: string, publicUrl: string = ''): TestRunLinks {
+    const baseUrl = `${publicUrl}${route}`;
+    const links: TestRunLinks = { self: `${publicUrl}${apiPrefix}${route}/${run.id}`, status: `${baseUrl}/${run.id}` };
+    if (run.origin) {
+      links.origin = `${publicUrl}${apiPrefix}${route}/${run.origin}`;
+    }
+    switch (run.status) {
+      case TestRunStatus.done:
+        links.results = `${baseUrl}/${run.id}/${resultsFolder}/`;
+        links.summary = `${baseUrl}/${run.id}/summary`;
+        links.log = `${baseUrl}/${run.id}/${jmeterLogName}`;
+        links.test = `${baseUrl}/${run.id}/${testName}`;
+        if (run.baseline) {
+          links.comparison = `${baseUrl}/${run.id}/comparison`;
+          links.diff = `${baseUrl}/${run.id}/diff`;
+        }
+        break;
+      case TestRunStatus.cancelled:
+      case TestRunStatus.timedout:
+        if (run.graceful) {
+          links.results = `${baseUrl}/${run.id}/${resultsFolder}/`;
+          links.summary = `${baseUrl}/${run.id}/summary`;
+        }
+        links.log = `${baseUrl}/${run.id}/${jmeterLogName}`;
+        links.test = `${baseUrl}/${run.id}/${testName}`;
+        break;
+      default: break;
+    }
+    if (run.hooks?.length && links.log) {
+      links.hooks = `${baseUrl}/${run.id}/${hooksLogName}`;
+    }
+    return links;
+  }
+
+  private _testRunInfo(run: TestRun, baseUrl: string): TestRunInfo {
+    if (run.status === TestRunStatus.queued) {
+      return this._queuedTestRunInfos(baseUrl).find(x => x.id === run.id)!;
+    }
+    return { ...run, links: this._testRunLinks(run, baseUrl) };
+  }
+
+  private _validateProperties(properties: Properties | undefined) {
+    const invalid = Object.keys(properties || {}).filter(x => !propertyNamePattern.test(x));
+    if (invalid.length) {
+      throw new BadRequestError(`Invalid property name(s): ${invalid.join(', ')}`);
+    }
+    return properties && Object.keys(properties).length ? _.mapValues(properties, x => `${x}`) : undefined;
+  }
+
+  private async _readLabels(run: TestRun): Promise<Labels> {
+    const descriptor = run.descriptor ?? describeTestPlan(await fsp.readFile(path.join(this._config.tempFolder, run.id, testName), { encoding: 'utf8' }));
+    return { ...descriptor.labels, ...this._propertyLabels(run) };
+  }
+
+  private _propertyLabels(run: TestRun): Properties {
+    return _.pick({ ...run.globalProperties, ...run.properties }, this._config.customLabels);
+  }
+
+  private _historyChart(title: string, unit: string, entries: TestRunHistoryEntry[], value: (entry: TestRunHistoryEntry) => number | undefined) {
+    const values = entries.map(x => ({ timestamp: x.timestamp, value: value(x) })).filter(x => x.value !== undefined) as { timestamp: string, value: number }[];
+    const max = _.max(values.map(x => x.value)) || 0;
+    const step = values.length > 1 ? historyChartWidth / (values.length - 1) : 0;
+    const points = values.map((x, index) => ({
+      ...x,
+      x: values.length > 1 ? Math.round(index * step) : historyChartWidth / 2,
+      y: Math.round(historyChartHeight - (max ? x.value / max : 0) * (historyChartHeight - 10) - 5),
+    }));
+    return {
+      title: title,
+      unit: unit,
+      width: historyChartWidth,
+      height: historyChartHeight,
+      max: max,
+      last: _.last(values)?.value,
+      points: points,
+      line: points.map(x => `${x.x},${x.y}`).join(' '),
+    };
+  }
+
+  private _propertiesAsList(properties: Properties | undefined) {
+    return Object.entries(properties || {}).map(([name, value]) => ({ name, value }));
+  }
+
+  private _validateBundleFiles(files: BundleFile[]) {
+    const invalid = files.filter(x => reservedNames.includes(x.name.split('/')[0]!));
+    if (invalid.length) {
+      throw new BadRequestError(`Bundle contains reserved file name(s): ${invalid.map(x => x.name).join(', ')}`);
+    }
+  }
+
+  private _validateWorkers(workers: string[] | undefined) {
+    const names = _.uniq(workers || []);
+    const unknown = names.filter(x => !this._workers.get(x));
+    if (unknown.length) {
+      throw new BadRequestError(`Unknown worker(s): ${unknown.join(', ')}`);
+    }
+    return names.length ? names : undefined;
+  }
+
+  private _validateOptions<T extends TestRunOptions>(options: T, descriptor?: TestPlanDescriptor): T {
+    const thresholds = [
+      ...(descriptor?.thresholds || []),
+      ...(options.thresholds || []),
+    ];
+    thresholds.forEach(x => parseThreshold(x));
+    return {
+      ...options,
+      thresholds: thresholds.length ? _.uniq(thresholds) : undefined,
+      properties: this._validateProperties(options.properties),
+      globalProperties: this._validateProperties(options.globalProperties),
+      workers: this._validateWorkers(options.workers),
+    };
+  }
+
+  private async _queueTest(body: string, options: TestRunOptions, files: BundleFile[], origin?: string): Promise<Test> {
+    const descriptor = describeTestPlan(body);
+    const { thresholds, properties, globalProperties, workers } = this._validateOptions(options, descriptor);
+    this._validateBundleFiles(files);
+
     const id = uuidv4();
     const folder = path.join(this._config.tempFolder, id);
     fs.mkdirSync(folder);
 
     await fsp.writeFile(path.join(folder, testName), body);
+    await writeBundleFiles(folder, files);
 
-    const parsed = this._testParser.parse(body) as JMeterTest;
-    const testPlan = parsed.jmeterTestPlan.hashTree.TestPlan;
     const timestamp = new Date().toISOString();
     const run = {
       id: id,
-      name: testPlan._testname,
-      category: category,
+      name: descriptor.name,
+      category: options.category,
+      lane: options.lane,
       timestamp: timestamp,
       status: TestRunStatus.queued,
+      schedule: options.schedule,
+      priority: options.priority || undefined,
+      origin: origin,
+      thresholds: thresholds,
+      properties: properties,
+      globalProperties: globalProperties,
+      workers: workers,
+      maxDuration: options.maxDuration,
+      descriptor: descriptor,
     } as TestRun;
     this._writeMetadata(run);
 
@@ -182,56 +562,179 @@ export class Controller {
     return this._upsertTest(test);
   }
 
+  private async _requeueTest(run: TestRun, overrides: TestRunOptions = {}): Promise<Test> {
+    // note: a test run is moved to the storage once exported, e.g. after its teardown hooks ran when killed
+    if (fs.existsSync(path.join(this._config.tempFolder, run.id))) {
+      throw new ConflictError(`Test ${run.id} is not stored yet, please try again later`);
+    }
+    const body = (await this._storage.read(run.id, testName))?.toString('utf8');
+    if (body === undefined) {
+      throw new NotFoundError(`Cannot find test plan of test ${run.id}`);
+    }
+    const stored = (await this._storage.files(run.id)).filter(x => !reservedNames.includes(x.name.split('/')[0]!));
+    const files: BundleFile[] = await Promise.all(stored.map(async x => ({ name: x.name, content: (await this._storage.read(run.id, x.name)) || Buffer.alloc(0) })));
+    const options: TestRunOptions = {
+      category: overrides.category ?? run.category,
+      lane: overrides.lane ?? run.lane,
+      priority: overrides.priority ?? run.priority,
+      thresholds: overrides.thresholds?.length ? overrides.thresholds : run.thresholds,
+      properties: { ...run.properties, ...overrides.properties },
+      globalProperties: { ...run.globalProperties, ...overrides.globalProperties },
+      workers: overrides.workers?.length ? overrides.workers : run.workers,
+      maxDuration: overrides.maxDuration ?? run.maxDuration,
+    };
+    return this._queueTest(body, options, files, run.id);
+  }
+
+  private _parseFilterDate(name: string, value: string | undefined) {
+    if (value === undefined) return undefined;
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+      throw new BadRequestError(`Invalid '${name}' date: ${value}`);
+    }
+    return date;
+  }
+
+  private _filterTestRuns(filter: TestRunFilter, statuses: TestRunStatus[]) {
+    const before = this._parseFilterDate('before', filter.before);
+    const after = this._parseFilterDate('after', filter.after);
+    const failed = (run: TestRun) => run.verdict === TestRunVerdict.failed || (run.status === TestRunStatus.done && !!run.code);
+
+    return this._testRunsByTimestamp(statuses.filter(x => !filter.status?.length || filter.status.includes(x)))
+      .filter(x => filter.category === undefined || (x.category || '') === filter.category)
+      .filter(x => filter.name === undefined || x.name === filter.name)
+      .filter(x => filter.failed === undefined || failed(x) === filter.failed)
+      .filter(x => before === undefined || Date.parse(x.timestamp) < before)
+      .filter(x => after === undefined || Date.parse(x.timestamp) >= after);
+  }
+
   private async _runTest(testRun: TestRun): Promise<void> {
     const id = testRun.id;
     const folder = path.join(this._config.tempFolder, id);
 
-    const endTimer = this._testDuration?.startTimer();
     const timestamp = new Date().toISOString();
-    const jmeter = cp.spawn('jmeter', ['-n', '-t', `${testName}`, '-l', `${reportName}`, '-e', '-o', `${resultsFolder}`], { cwd: folder });
+    const starting = { ...testRun, timestamp: timestamp, status: TestRunStatus.running } as TestRun;
+    this._writeMetadata(starting);
+    this._upsertTest({ run: starting, process: undefined } as Test);
+
+    const settingUp = new AbortController();
+    this._setups[id] = settingUp;
+    const setup = await this._hooks.run(starting, HookPhase.setup, folder, settingUp.signal);
+    delete this._setups[id];
+    if (settingUp.signal.aborted) {
+      // note: cancelled while running the setup hooks, so export the test run once these are stopped (unless deleted)
+      const cancelled = this._getTest(id)?.run;
+      if (cancelled) {
+        this._exportTestRun(this._upsertTest({ run: { ...cancelled, hooks: setup.results.length ? setup.results : undefined }, process: undefined } as Test).run);
+      }
+      this._runQueuedTests();
+      return;
+    }
+    if (setup.failed) {
+      this._failSetup(testRun, starting, setup);
+      return;
+    }
 
-    const run = {
-      ...testRun,
-      timestamp: timestamp,
-      status: TestRunStatus.running
-    } as TestRun;
+    const endTimer = this._testDuration?.startTimer();
+    const properties = [
+      ...Object.entries(testRun.properties || {}).map(([name, value]) => `-J${name}=${value}`),
+      ...Object.entries(testRun.globalProperties || {}).map(([name, value]) => `-G${name}=${value}`),
+    ];
+    const distributed = remoteArguments((testRun.workers || []).map(x => this._workers.get(x)).filter(x => !!x), this._config.workerRmiSsl);
+    const shutdownPort = this._shutdownPort();
+    const shutdown = [`-Jjmeterengine.nongui.port=${shutdownPort}`, `-Jjmeterengine.nongui.maxport=${shutdownPort}`];
+    const jmeter = cp.spawn('jmeter', ['-n', '-t', `${testName}`, '-l', `${reportName}`, '-e', '-o', `${resultsFolder}`, ...distributed, ...shutdown, ...properties], { cwd: folder });
+    this._watchdogs[id] = new Watchdog(id, jmeter, shutdownPort, this._config.timeoutGracePeriodInSeconds)
+      .start(testRun.maxDuration || this._config.maxDurationInSeconds);
+
+    const run = { ...starting, hooks: setup.results.length ? setup.results : undefined } as TestRun;
     this._writeMetadata(run);
 
     this._upsertTest({ run: run, process: jmeter } as Test);
-    this.status = ControllerStatus.running;
+    this._notify(WebhookEvent.testStarted, run);
 
     const logs = path.join(folder, outputName);
     jmeter.stdout.pipe(fs.createWriteStream(logs, { encoding: 'utf8', flags: 'a', flush: true, autoClose: true, emitClose: false }));
+    readline.createInterface({ input: jmeter.stdout, crlfDelay: Infinity }).on('line', line => {
+      this._publish(id, { event: 'output', data: line });
+      const progress = parseSummaryLine(line);
+      if (progress) {
+        this._publish(id, { event: 'progress', data: progress });
+      }
+    });
+
+    this._readLabels(run)
+      .catch(() => this._propertyLabels(run))
+      .then(labels => this.testRunning(id) && this._metrics.follow(labels, run, path.join(folder, reportName)));
 
     jmeter.on('close', async (code, signal) => {
+      this._metrics.unfollow(id);
+      const outcome = this._stopWatchdog(id);
+      const cancelled = outcome === TestRunStatus.cancelled;
       try {
-        if (!signal) {
+        const current = this._getTest(id)?.run || run;
+        const teardown = await this._hooks.run(current, HookPhase.teardown, folder);
+        const hooks = [...(run.hooks || []), ...teardown.results];
+
+        if (outcome === TestRunStatus.timedout || (cancelled && signal)) {
+          const duration = (Date.now() - Date.parse(run.timestamp)) / 1000;
+          const exported = { ...run, status: outcome, code: code ?? undefined, duration: duration, hooks: hooks.length ? hooks : undefined } as TestRun;
+          await this._exportTestRun(exported);
+          const updatedRun = this._upsertTest({ run: exported, process: jmeter } as Test).run;
+          this._metrics.countTestRun(updatedRun);
+          this._notify(cancelled ? WebhookEvent.testCancelled : WebhookEvent.testTimedOut, updatedRun, { code: code ?? undefined, duration: duration });
+          this._endStream(updatedRun);
+          if (cancelled || this._config.pauseOnTimeout || teardown.action === HookFailureAction.pause) {
+            this.status = ControllerStatus.paused;
+          } else {
+            this._runQueuedTests();
+          }
+        } else if (!signal) {
           let duration: number | undefined;
+          let labels: Properties | undefined;
           try {
-            const body = await fsp.readFile(path.join(folder, testName));
-            const parsed = this._testParser.parse(body) as JMeterTest;
-            const args = parsed.jmeterTestPlan.hashTree.hashTree.Arguments;
-            const elements = Array.isArray(args) && args?.find(x => x._testname === 'Labels')?.collectionProp?.elementProp;
-            const labels = Array.isArray(elements) && elements
-              .map(x => ({
-                key: x._name,
-                value: Array.isArray(x.stringProp)
-                  ? x.stringProp.find(s => s._name === 'Argument.value')?._text
-                  : (x.stringProp._name === 'Argument.value' ? x.stringProp._text : undefined)
-              }))
-              .reduce<Labels>((a, x) => (a[x.key] = x.value?.toString(), a), {});
-            duration = endTimer && endTimer({ ...labels, category: run.category, name: run.name });
+            const runLabels = await this._readLabels(run);
+            labels = _.omitBy(runLabels, _.isUndefined) as Properties;
+            duration = endTimer && endTimer({ ...runLabels, category: run.category, name: run.name });
           } catch (error) {
             console.warn(`[WARN] Cannot calculate duration for test ${id} because: ${error}`);
             duration = undefined;
           }
-          const updatedTest = { run: { ...run, status: TestRunStatus.done, code: code, duration: duration }, process: jmeter } as Test;
-          const updatedRun = this._upsertTest(updatedTest).run;
-          this._writeMetadata(updatedRun);
-          this._moveToResults(updatedRun.id);
-          this.status = code === 0 ? ControllerStatus.idle : ControllerStatus.paused;
+          let summary: TestRunSummary | undefined;
+          try {
+            summary = await this._writeSummary(run, labels || {});
+          } catch (error) {
+            console.warn(`[WARN] Cannot summarize results for test ${id} because: ${error}`);
+            summary = undefined;
+          }
+          // note: a gracefully cancelled test run has (partial) results but no verdict nor comparison
+          const verdict = !cancelled && run.thresholds?.length ? evaluateThresholds(run.thresholds.map(x => parseThreshold(x)), summary) : {};
+          const teardownVerdict = teardown.action === HookFailureAction.fail ? { verdict: TestRunVerdict.failed } : {};
+          let comparison = {};
+          try {
+            comparison = summary && !cancelled ? await this._compareWithBaseline(run, summary) : {};
+          } catch (error) {
+            console.warn(`[WARN] Cannot compare test ${id} with its baseline because: ${error}`);
+          }
+          const exported = { ...run, status: cancelled ? TestRunStatus.cancelled : TestRunStatus.done, code: code, duration: duration, graceful: cancelled || undefined, ...verdict, ...teardownVerdict, ...comparison, labels: _.isEmpty(labels) ? undefined : labels, hooks: hooks.length ? hooks : undefined } as TestRun;
+          // note: only mark the test run as completed once stored, so it can be rerun right away
+          await this._exportTestRun(exported);
+          const updatedRun = this._upsertTest({ run: exported, process: jmeter } as Test).run;
+          this._metrics.countTestRun(updatedRun);
+          this._notify(cancelled ? WebhookEvent.testCancelled : WebhookEvent.testCompleted, updatedRun, { code: code, duration: duration, summary: summary });
+          this._endStream(updatedRun);
+          if (code === 0 && !cancelled && teardown.action !== HookFailureAction.pause) {
+            this._runQueuedTests();
+          } else {
+            this.status = ControllerStatus.paused;
+          }
         } else {
           console.warn(`[WARN] received signal ${signal} for test ${id}`);
+          const cancelledRun = this._getTest(id)?.run;
+          if (cancelledRun) {
+            this._exportTestRun(this._upsertTest({ run: { ...cancelledRun, hooks: hooks.length ? hooks : undefined }, process: undefined } as Test).run);
+          }
         }
       } catch (error) {
         console.error(`[ERROR] Failed to write metadata because: ${error}`);
@@ -240,16 +743,17 @@ export class Controller {
   }
 
   private async _importTestsAndRuns() {
-    const runs = await this._getSubDirectories(this._config.tempFolder);
-    runs.forEach(id => this._moveToResults(id));
+    const tests = (await this._storage.list()).filter(x => !reservedFolders.includes(x));
+    for (const chunk of _.chunk(tests, requestConcurrency)) {
+      await Promise.all(chunk.map(id => this._importTest(id)));
+    }
 
-    const tests = await this._getSubDirectories(this._config.testFolder);
-    tests.forEach(id => this._importTest(id));
+    const runs = await this._getSubDirectories(this._config.tempFolder);
+    runs.forEach(id => this._importTestRun(id));
   }
 
   public async _exportTestRuns() {
-    const runs = await this._getSubDirectories(this._config.tempFolder);
-    runs.forEach(id => this.cancelTest(id));
+    this._testRunsByTimestamp([TestRunStatus.running]).forEach(x => this.cancelTest(x.id, CancelMode.hard));
   }
 
   constructor(private _config: ControllerConfig) {
@@ -260,21 +764,72 @@ export class Controller {
       labelNames: this._config.customLabels.length ? [...this._config.customLabels, ...defaultLabels] : defaultLabels,
     });
     _config.register.registerMetric(this._testDuration);
+    this._metrics = new TestRunMetrics(_config.register, _config.customLabels, _config.liveWindowInSeconds, () => this.getStatus());
+
+    this._notifier = new WebhookNotifier(_config.webhooks, _config.webhookRetries, _config.silent);
+
+    this._scheduler = new Scheduler(path.join(_config.testFolder, schedulesFolder), (schedule, test, files) => this.scheduleTestRun(test, {
+      category: schedule.category,
+      lane: schedule.lane,
+      schedule: schedule.id,
+      priority: schedule.priority,
+      thresholds: schedule.thresholds,
+      properties: schedule.properties,
+      globalProperties: schedule.globalProperties,
+      workers: schedule.workers,
+      maxDuration: schedule.maxDuration,
+    }, files));
+
+    this._workers = new WorkerPool(path.join(_config.testFolder, workersName), _config.workerHealthIntervalInSeconds, _config.silent, () => this._runQueuedTests());
+    this._hooks = new HookRunner(_config.hooks, _config.cwd, _config.silent);
+    this._storage = createStorage(_config.storage, _config.testFolder, _config.s3);
+    this._resumeCondition = new ResumeCondition(_config.resumeUrl, _config.resumeScript, _config.cwd, _config.resumeIntervalInSeconds, _config.silent, () => this.resume());
   }
 
   public async initialize() {
     const cwd = this._config.cwd;
     this._statusTemplate = await fsp.readFile(`${cwd}/${statusTemplate}`, {encoding: 'utf8'});
     this._overviewTemplate = await fsp.readFile(`${cwd}/${overviewTemplate}`, {encoding: 'utf8'});
+    this._comparisonTemplate = await fsp.readFile(`${cwd}/${comparisonTemplate}`, {encoding: 'utf8'});
+    this._historyTemplate = await fsp.readFile(`${cwd}/${historyTemplate}`, {encoding: 'utf8'});
 
     try {
+      this._readControllerState();
+      if (this._paused) {
+        this._resumeCondition.start();
+      }
+      this._readBaselines();
       await this._importTestsAndRuns();
     } catch (error) {
       console.error('[ERROR] Failed to import metadata because: ', error);
     }
+
+    try {
+      await this._scheduler.initialize();
+    } catch (error) {
+      console.error('[ERROR] Failed to import schedules because: ', error);
+    }
+
+    try {
+      await this._workers.initialize(this._config.workers);
+    } catch (error) {
+      console.error('[ERROR] Failed to import workers because: ', error);
+    }
+
+    const { keepRuns, maxAgeInDays, maxDiskUsage, sweepIntervalInMinutes } = this._config.retention;
+    if ((keepRuns || maxAgeInDays || maxDiskUsage) && sweepIntervalInMinutes) {
+      this._sweeper = setInterval(() => this._sweep(), sweepIntervalInMinutes * 60000).unref();
+      this._sweep();
+    }
+
+    this._runQueuedTests();
   }
 
   public async terminate() {
+    clearInterval(this._sweeper);
+    this._scheduler.terminate();
+    this._workers.terminate();
+    this._resumeCondition.stop();
     try {
       await this._exportTestRuns();
     } catch (error) {
@@ -300,15 +855,26 @@ export class Controller {
     return test && test.run.status;
   }
 
-  public cancelTest(id: string) {
+  public cancelTest(id: string, mode: CancelMode = this._config.cancelMode): CancelMode | undefined {
     const test = this._getTest(id);
-    if (test) {
-      this._exportTestRun(this._cancelTest(test).run);
+    if (!test) return undefined;
+
+    if (mode === CancelMode.graceful && test.process && this._watchdogs[id]?.cancel()) {
+      return CancelMode.graceful;
+    }
+    const cancelled = this._cancelTest(test).run;
+    if (!test.process && !this._setups[id]) {
+      // note: a killed test run is exported once jmeter stopped and the teardown hooks ran in its folder,
+      //       a test run in its setup hooks once these are stopped
+      this._exportTestRun(cancelled);
     }
+    return CancelMode.hard;
   }
 
-  public deleteTest(id: string) {
-    const testData = path.join(this._config.testFolder, id);
+  public async deleteTest(id: string) {
+    if (reservedFolders.includes(id)) return false;
+
+    const testData = `${this._storage.location}/${id}`;
     const runData = path.join(this._config.tempFolder, id);
 
     const exists = this.testExists(id);
@@ -322,15 +888,19 @@ export class Controller {
       console.warn(`[WARN] Test ${id} does not exist (in memory DB) but trying to remove test data (${testData}).`);
     }
 
-    const testDataExists = fs.existsSync(testData);
+    if (this._baselines.some(x => x.id === id)) {
+      this._baselines = this._baselines.filter(x => x.id !== id);
+      this._writeBaselines();
+    }
+
+    if (!this._config.silent) console.info(`[INFO] Deleting test data at ${testData}...`);
+    const testDataExists = await this._storage.remove(id);
     if (testDataExists) {
-      if (!this._config.silent) console.info(`[INFO] Deleting test data at ${testData}...`);
-      fs.rmSync(testData, { recursive: true, force: true });
       console.warn(`[WARN] Deleted test data at ${testData}.`);
     }
 
     const runDataExists = fs.existsSync(runData);
-    if (testDataExists) {
+    if (runDataExists) {
       if (!this._config.silent) console.info(`[INFO] Deleting test run data at ${runData}...`);
       fs.rmSync(runData, { recursive: true, force: true });
       console.warn(`[WARN] Deleted test run data at ${runData}.`);
@@ -339,89 +909,432 @@ export class Controller {
     return exists || testDataExists || runDataExists;
   }
 
-  public deleteAllTests() {
-    this._tests.map(x => this.deleteTest(x.run.id));
+  public async deleteAllTests() {
+    await Promise.all(this._tests.map(x => this.deleteTest(x.run.id)));
   }
 
-  public cancelAllRunningTests() {
+  public cancelAllRunningTests(mode?: CancelMode) {
     this._tests.map(x => {
-      if (x.process && !x.process.exitCode) {
-        this.cancelTest(x.run.id)
+      if (x.run.status === TestRunStatus.running) {
+        this.cancelTest(x.run.id, mode)
+      }
+    });
+  }
+
+  public async applyBulkAction(action: BulkAction, filter: TestRunFilter, confirmed: boolean): Promise<BulkOperationReport> {
+    const runs: BulkOperationRun[] = this._filterTestRuns(filter, bulkActionStatus[action])
+      .map(x => ({ id: x.id, category: x.category, name: x.name, timestamp: x.timestamp, status: x.status }) as BulkOperationRun);
+
+    if (confirmed) {
+      for (const run of runs) {
+        switch (action) {
+          case BulkAction.cancel:
+            this.cancelTest(run.id);
+            break;
+          case BulkAction.delete:
+            await this.deleteTest(run.id);
+            break;
+          case BulkAction.requeue:
+            run.requeued = (await this._requeueTest(this._getTest(run.id)!.run)).run.id;
+            break;
+        }
+      }
+      if (action === BulkAction.requeue) {
+        this._runQueuedTests();
       }
+    }
+
+    return { action: action, confirmed: confirmed, filter: filter, runs: runs };
+  }
+
+  public async getTestRunSummary(id: string): Promise<TestRunSummary | undefined> {
+    const test = this._getTest(id);
+    if (!test || !(test.run.status === TestRunStatus.done || test.run.graceful)) return undefined;
+
+    return this._readSummary(id);
+  }
+
+  public async getTestRunHistory(category: string | undefined, name: string, labels: Properties = {}, limit: number = 20): Promise<TestRunHistory> {
+    const runs = this._testRunsByTimestamp([TestRunStatus.done])
+      .filter(x => (x.category || undefined) === (category || undefined) && x.name === name)
+      .map(x => ({ run: x, labels: x.labels ?? this._propertyLabels(x) }))
+      .filter(x => _.isMatch(x.labels, labels))
+      .slice(-limit);
+
+    const entries = await Promise.all(runs.map(async ({ run, labels }) => {
+      const summary = await this._readSummary(run.id).catch(() => undefined);
+      return {
+        id: run.id,
+        timestamp: run.timestamp,
+        duration: run.duration,
+        p95: summary?.total.p95,
+        errorRate: summary?.total.errorRate,
+        throughput: summary?.total.throughput,
+        verdict: run.verdict,
+        regression: run.regression,
+        labels: labels,
+      } as TestRunHistoryEntry;
+    }));
+
+    return { category: category || undefined, name: name, labels: labels, runs: entries } as TestRunHistory;
+  }
+
+  public async getTestRunHistoryView(category: string | undefined, name: string, labels: Properties, limit: number, baseUrl: string) {
+    const history = await this.getTestRunHistory(category, name, labels, limit);
+    const data = {
+      ...history,
+      limit: limit,
+      labels: this._propertiesAsList(history.labels),
+      charts: [
+        this._historyChart('Duration', 's', history.runs, x => x.duration),
+        this._historyChart('Latency (p95)', 'ms', history.runs, x => x.p95),
+        this._historyChart('Error rate', '%', history.runs, x => x.errorRate === undefined ? undefined : _.round(x.errorRate * 100, 2)),
+        this._historyChart('Throughput', '/s', history.runs, x => x.throughput),
+      ],
+      runs: history.runs.slice().reverse().map(x => ({
+        ...x,
+        labels: this._propertiesAsList(x.labels),
+        summary: `${baseUrl}/${x.id}/summary`,
+        diff: this._getTest(x.id)?.run.baseline ? `${baseUrl}/${x.id}/diff` : null,
+      })),
+    };
+    return Mustache.render(this._historyTemplate!, data);
+  }
+
+  public pinTest(id: string, pinned: boolean, baseUrl: string): TestRunInfo | undefined {
+    const test = this._getTest(id);
+    if (!test) return undefined;
+
+    const run = { ...test.run } as TestRun;
+    if (pinned) {
+      run.pinned = true;
+    } else {
+      delete run.pinned;
+    }
+    this._upsertTest({ ...test, run: run });
+    this._updateMetadata(run);
+    return this._testRunInfo(run, baseUrl);
+  }
+
+  public async applyRetention(dryRun: boolean): Promise<RetentionReport> {
+    const runs = await this._retainedTestRuns();
+    const expired = selectExpiredRuns(runs, this._config.retention);
+    if (!dryRun) {
+      await Promise.all(expired.map(x => this.deleteTest(x.id)));
+    }
+
+    return {
+      dryRun: dryRun,
+      policy: this._config.retention,
+      usage: runs.reduce((a, x) => a + x.size, 0),
+      freed: expired.reduce((a, x) => a + x.size, 0),
+      runs: expired,
+    };
+  }
+
+  public getBaselines(): Baseline[] {
+    return this._baselines;
+  }
+
+  public async setBaseline(id: string): Promise<Baseline | undefined> {
+    const test = this._getTest(id);
+    if (!test) return undefined;
+
+    if (!(await this.getTestRunSummary(id))) {
+      throw new BadRequestError(`Test ${id} has no summary (status: ${test.run.status}), only completed tests can be a baseline`);
+    }
+
+    const baseline = { id: id, category: test.run.category, name: test.run.name } as Baseline;
+    this._baselines = [...this._baselines.filter(x => !(x.category === baseline.category && x.name === baseline.name)), baseline];
+    this._writeBaselines();
+    if (!this._config.silent) console.info(`[INFO] Test ${id} is now the baseline for ${baseline.category}/${baseline.name}`);
+    return baseline;
+  }
+
+  public clearBaseline(id: string): boolean {
+    if (!this._baselines.some(x => x.id === id)) return false;
+
+    this._baselines = this._baselines.filter(x => x.id !== id);
+    this._writeBaselines();
+    return true;
+  }
+
+  public async getTestRunComparison(id: string, baselineId?: string, tolerance: Partial<BaselineTolerance> = {}): Promise<TestRunComparison | undefined> {
+    const test = this._getTest(id);
+    if (!test) return undefined;
+
+    const baseline = baselineId ?? test.run.baseline ?? this._baselineOf(test.run)?.id;
+    if (!baseline || (baseline === id && !baselineId)) return undefined;
+
+    const [summary, baselineSummary] = await Promise.all([this.getTestRunSummary(id), this.getTestRunSummary(baseline)]);
+    if (!summary || !baselineSummary) return undefined;
+
+    return compareSummaries(summary, baselineSummary, { ...this._config.tolerance, ..._.omitBy(tolerance, _.isUndefined) });
+  }
+
+  public async getTestRunComparisonView(id: string, baselineId?: string, tolerance: Partial<BaselineTolerance> = {}) {
+    const comparison = await this.getTestRunComparison(id, baselineId, tolerance);
+    if (!comparison) return undefined;
+
+    const percentage = (value: number | undefined) => value === undefined ? '-' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+    const rows = (x: typeof comparison.total) => ({
+      ...x,
+      metrics: x.metrics.map(m => ({ ...m, change: m.metric === 'errorRate' ? percentage(m.delta) : percentage(m.change) })),
     });
+    const data = {
+      ...comparison,
+      tolerance: _.mapValues(comparison.tolerance, x => (x * 100).toFixed(1)),
+      total: rows(comparison.total),
+      labels: comparison.labels.map(x => rows(x)),
+      current: this._getTest(id)!.run,
+      previous: this._getTest(comparison.baseline)!.run,
+    };
+    return Mustache.render(this._comparisonTemplate!, data);
+  }
+
+  public async getTestRunOutput(id: string, limit: number = 1000) {
+    const logs = path.join(this._config.tempFolder, id, outputName);
+    if (fs.existsSync(logs)) {
+      return limit ? await read(logs, limit) : this._read(logs);
+    }
+
+    const output = (await this._storage.read(id, outputName))?.toString('utf8') || '';
+    return limit ? output.split('\n').slice(-(limit + 1)).join('\n') : output;
+  }
+
+  public async getTestRunFile(id: string, name: string): Promise<StoredContent | undefined> {
+    if (reservedFolders.includes(id)) return undefined;
+
+    return this._storage.open(id, !name || name.endsWith('/') ? `${name}index.html` : name);
+  }
+
+  public getTestRunProgress(id: string): TestRunProgress | undefined {
+    return this._progressById[id];
+  }
+
+  public subscribe(id: string, listener: TestRunStreamListener) {
+    this._streams.on(id, listener);
+    return () => { this._streams.off(id, listener); };
   }
 
   public async getTestRunStatus(id: string, limit: number = 1000) {
     const test = this._getTest(id);
     if (!test) throw new Error(`Test ${id} does not exist.`);
 
-    const logs = path.join(this._config.tempFolder, id, outputName);
-    const output = limit ? await read(logs, limit) : this._read(logs);
+    const running = test.run.status === TestRunStatus.running;
     const data = {
       ...test.run,
-      refresh: test.run.status === TestRunStatus.running ? this._config.refreshTimeInSeconds : false,
-      output: output,
+      properties: this._propertiesAsList(test.run.properties),
+      globalProperties: this._propertiesAsList(test.run.globalProperties),
+      // note: thread groups without (scheduled) duration must not inherit the test run duration
+      descriptor: test.run.descriptor && { ...test.run.descriptor, threadGroups: test.run.descriptor.threadGroups.map(x => ({ duration: null, ...x })) },
+      variables: this._propertiesAsList(test.run.descriptor?.variables),
+      labels: this._propertiesAsList(test.run.descriptor?.labels),
+      refresh: running ? this._config.refreshTimeInSeconds : false,
+      stream: running ? `/test/${id}/stream?tail=0` : false,
+      progress: this._progressById[id],
+      output: await this.getTestRunOutput(id, limit),
     };
     return Mustache.render(this._statusTemplate!, data);
   }
 
   public getTestRunsOverview(baseUrl: string) {
-    const runs = this._testRunsByTimestamp([TestRunStatus.done, TestRunStatus.cancelled])
+    const runs = this._testRunsByTimestamp([TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout])
       .map(run => ({
         ...run,
-        link: `${baseUrl}/${run.id}/${(run.status === TestRunStatus.done ? 'results/' : 'jmeter.log')}`,
-        text: run.status === TestRunStatus.done ? 'results' : 'output',
-        stats: run.status === TestRunStatus.done ? `${baseUrl}/${run.id}/stats.xml` : null,
+        properties: this._propertiesAsList(run.properties),
+        globalProperties: this._propertiesAsList(run.globalProperties),
+        link: `${baseUrl}/${run.id}/${(run.status === TestRunStatus.done || run.graceful ? `${resultsFolder}/` : jmeterLogName)}`,
+        text: run.status === TestRunStatus.done || run.graceful ? 'results' : 'output',
+        stats: run.status === TestRunStatus.done || run.graceful ? `${baseUrl}/${run.id}/summary` : null,
+        diff: run.status === TestRunStatus.done && run.baseline ? `${baseUrl}/${run.id}/diff` : null,
+        isBaseline: this._baselines.some(x => x.id === run.id),
+        origin: run.origin ? `${baseUrl}/${run.origin}` : null,
+        hooksLog: run.hooks?.length ? `${baseUrl}/${run.id}/${hooksLogName}` : null,
+        failedHook: run.hooks?.find(x => !x.success)?.name || null,
+        action: [
+          ...(run.status === TestRunStatus.done && !this._baselines.some(x => x.id === run.id) ? [{ label: 'Set baseline', onClick: `setBaseline('${run.id}')` }] : []),
+          { label: 'Run again', onClick: `rerunTest('${run.id}')` },
+          run.pinned ? { label: 'Unpin', onClick: `pinTest('${run.id}', false)` } : { label: 'Pin', onClick: `pinTest('${run.id}', true)` },
+        ],
       }));
 
     const runsGroupedByCategory = _.groupBy(runs, (run: { category?: string }) => run.category);
     const runsByCategoryAndName = _.orderBy(_.keys(runsGroupedByCategory)).map(x => {
       const categoryGroupedByName = _.groupBy(runsGroupedByCategory[x] || [], (run: { name: string }) => run.name);
-      const categoryByName = _.orderBy(_.keys(categoryGroupedByName)).map(x => ({ name: x, group: categoryGroupedByName[x] || [] }));
+      const categoryByName = _.orderBy(_.keys(categoryGroupedByName)).map(x => {
+        const group = categoryGroupedByName[x] || [];
+        const category = group[0]?.category;
+        const history = `/history?${new URLSearchParams(category ? { category: category, name: x } : { name: x })}`;
+        return { name: x, history: history, group: group };
+      });
       return { category: x, group: categoryByName };
     });
 
-    let current = undefined;
-    let action = undefined;
+    const current = this._testRunsByTimestamp([TestRunStatus.running])
+      .map(running => ({
+        ...running,
+        lane: laneOf(running) ?? 'none',
+        workers: running.workers || [],
+        maxDuration: running.maxDuration || this._config.maxDurationInSeconds || null,
+        properties: this._propertiesAsList(running.properties),
+        globalProperties: this._propertiesAsList(running.globalProperties),
+        link: `${baseUrl}/${running.id}`,
+        text: 'status',
+        action: [
+          { label: 'Cancel', onClick: `cancelTest('${running.id}', '${CancelMode.hard}')` },
+          { label: 'Stop gracefully', onClick: `cancelTest('${running.id}', '${CancelMode.graceful}')` },
+        ],
+      }));
 
-    switch (this.status) {
-      case ControllerStatus.running: {
-        const running = this._tests.find(x => x.run.status === TestRunStatus.running)!.run;
-        action = { label: 'Cancel', onClick: `cancelTest('${running.id}', {'x-api-key':'${this._config.keys.deleteTest}'})` };
-        current = { ...running, link: `${baseUrl}/${running.id}`, text: 'status' };
-        break;
-      }
-      case ControllerStatus.paused: {
-        action = { label: 'Resume', onClick: `resume({'x-api-key':'${this._config.keys.runTest}'})` };
-        break;
-      }
-      case ControllerStatus.idle: break;
-      default: break;
-    }
+    const action = this.status === ControllerStatus.paused
+      ? { label: 'Resume', onClick: 'resume()' }
+      : undefined;
 
-    const queued = this._testRunsByTimestamp([TestRunStatus.queued]);
+    const queued = this._queuedTestRunInfos(baseUrl)
+      .map(run => ({
+        ...run,
+        lane: laneOf(run) ?? 'none',
+        workers: run.workers || [],
+        actions: [
+          ...(run.position! > 1 ? [{ label: 'Move to front', onClick: `bumpTest('${run.id}')` }] : []),
+          { label: 'Remove', onClick: `removeTest('${run.id}')` },
+        ],
+        properties: this._propertiesAsList(run.properties),
+        globalProperties: this._propertiesAsList(run.globalProperties),
+      }));
 
     const data = {
       status: this.status,
+      maxRunning: this._config.maxRunning,
       queued: queued,
+      scheduled: this._scheduler.upcoming,
+      workers: this.getWorkers(),
       current: current,
       action: action,
+      resuming: this._paused && this._resumeCondition.waiting,
       refresh: this._config.refreshTimeInSeconds,
       tests: runsByCategoryAndName,
     };
     return Mustache.render(this._overviewTemplate!, data);
   }
 
-  public async scheduleTestRun(body: string, category: string | undefined) {
-    const test = await this._queueTest(body, category);
+  public getStatus(): ControllerStatusInfo {
+    return {
+      status: this.status,
+      queued: this._testRunsByTimestamp([TestRunStatus.queued]).length,
+      running: this.runningCount,
+      maxRunning: this._config.maxRunning,
+    };
+  }
+
+  public getTestRun(id: string, baseUrl: string): TestRunInfo | undefined {
+    const test = this._getTest(id);
+    return test && this._testRunInfo(test.run, baseUrl);
+  }
+
+  public getTestRuns(baseUrl: string): TestRunsOverview {
+    return {
+      status: this.status,
+      queued: this._queuedTestRunInfos(baseUrl),
+      running: this._testRunsByTimestamp([TestRunStatus.running]).map(run => this._testRunInfo(run, baseUrl)),
+      completed: this._testRunsByTimestamp([TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout]).map(run => this._testRunInfo(run, baseUrl)),
+    };
+  }
+
+  public async rerunTest(id: string, overrides: TestRunOptions = {}) {
+    const test = this._getTest(id);
+    if (!test) return undefined;
+    if (![TestRunStatus.done, TestRunStatus.cancelled, TestRunStatus.timedout].includes(test.run.status)) {
+      throw new BadRequestError(`Test ${id} is not completed (status: ${test.run.status})`);
+    }
+
+    const rerun = await this._requeueTest(test.run, overrides);
+    this._runQueuedTests();
+
+    return { id: rerun.run.id };
+  }
+
+  public getWorkers(): JMeterWorkerStatus[] {
+    const running = this._testRunsByTimestamp([TestRunStatus.running]);
+    return this._workers.workers.map(worker => {
+      const run = running.find(x => x.workers?.includes(worker.name));
+      return run ? { ...worker, testRun: run.id } : worker;
+    });
+  }
+
+  public async registerWorker(worker: JMeterWorker): Promise<JMeterWorkerStatus> {
+    const registered = await this._workers.register(worker);
+    this._runQueuedTests();
+    return registered;
+  }
+
+  public async unregisterWorker(name: string): Promise<boolean> {
+    const runs = this._testRunsByTimestamp([TestRunStatus.queued, TestRunStatus.running]).filter(x => x.workers?.includes(name));
+    if (runs.length) {
+      throw new BadRequestError(`Worker ${name} is used by test run(s): ${runs.map(x => x.id).join(', ')}`);
+    }
+    return this._workers.unregister(name);
+  }
+
+  public getQueue(baseUrl: string): TestRunInfo[] {
+    return this._queuedTestRunInfos(baseUrl);
+  }
+
+  public bumpTest(id: string, baseUrl: string): TestRunInfo | undefined {
+    const test = this._getTest(id);
+    if (test?.run.status !== TestRunStatus.queued) return undefined;
 
-    if (this.status === ControllerStatus.idle) {
-      this._runTest(test.run);
+    const queued = this._queuedTestRuns();
+    if (queued[0]?.id !== id) {
+      const run = { ...test.run, priority: (queued[0]?.priority || 0) + 1 } as TestRun;
+      this._upsertTest({ ...test, run: run });
+      this._updateMetadata(run);
     }
+    return this._testRunInfo(this._getTest(id)!.run, baseUrl);
+  }
+
+  public async removeQueuedTest(id: string): Promise<boolean> {
+    const test = this._getTest(id);
+    if (test?.run.status !== TestRunStatus.queued) return false;
+
+    this._cancelTest(test);
+    return this.deleteTest(id);
+  }
+
+  public async scheduleTestRun(body: string, options: TestRunOptions, files: BundleFile[] = []) {
+    const test = await this._queueTest(body, options, files);
+    this._runQueuedTests();
 
     return { id: test.run.id };
   }
 
+  public getSchedules(): TestSchedule[] {
+    return this._scheduler.schedules;
+  }
+
+  public getSchedule(id: string): TestSchedule | undefined {
+    return this._scheduler.get(id);
+  }
+
+  public async createSchedule(body: string, options: TestScheduleOptions, files: BundleFile[] = []) {
+    const descriptor = describeTestPlan(body);
+    this._validateBundleFiles(files);
+    return this._scheduler.create(body, descriptor.name, this._validateOptions(options), files);
+  }
+
+  public async updateSchedule(id: string, options: TestScheduleOptions) {
+    return this._scheduler.update(id, this._validateOptions(options));
+  }
+
+  public async deleteSchedule(id: string) {
+    return this._scheduler.delete(id);
+  }
+
+  public get webhookDeliveries() {
+    return this._notifier.deliveries;
+  }
+
   public resume() {
     this.status = ControllerStatus.idle;
     return { status: this.status };
@@ -0,0 +1,174 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+import { BadRequestError } from './errors';
+import { Properties, SamplerDescriptor, TestPlanDescriptor, ThreadGroupDescriptor } from './interfaces';
+
+const labelsArguments = 'Labels';
+const thresholdsArguments = 'Thresholds';
+const userDefinedVariables = 'TestPlan.user_defined_variables';
+const attributesKey = ':@';
+const propertyTags = ['stringProp', 'intProp', 'longProp', 'boolProp', 'doubleProp', 'floatProp'];
+const threadGroupPattern = /ThreadGroup$/;
+const samplerPattern = /Sampler(Proxy)?$/;
+
+type XmlNode = { [key: string]: any };
+
+interface TreeEntry {
+  element: XmlNode;
+  tree: XmlNode | undefined;
+}
+
+const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '_', textNodeName: '_text', preserveOrder: true, parseTagValue: false });
+
+function tagOf(node: XmlNode) {
+  return Object.keys(node).find(x => x !== attributesKey) || '';
+}
+
+function childrenOf(node: XmlNode | undefined): XmlNode[] {
+  const children = node && node[tagOf(node)];
+  return Array.isArray(children) ? children : [];
+}
+
+function elementsOf(node: XmlNode | undefined, tag: string) {
+  return childrenOf(node).filter(x => tagOf(x) === tag);
+}
+
+function attributeOf(node: XmlNode, name: string): string | undefined {
+  return node[attributesKey]?.[`_${name}`];
+}
+
+function textOf(node: XmlNode) {
+  return childrenOf(node).map(x => x['_text'] ?? '').join('');
+}
+
+function propertyOf(node: XmlNode, name: string): string | undefined {
+  for (const child of childrenOf(node)) {
+    const tag = tagOf(child);
+    if (propertyTags.includes(tag) && attributeOf(child, 'name') === name) {
+      return textOf(child) || undefined;
+    }
+    if (tag === 'elementProp') {
+      const value = propertyOf(child, name);
+      if (value !== undefined) return value;
+    }
+  }
+  return undefined;
+}
+
+function entriesOf(tree: XmlNode | undefined): TreeEntry[] {
+  const children = childrenOf(tree);
+  return children
+    .map((element, index) => ({ element: element, tree: tagOf(children[index + 1] || {}) === 'hashTree' ? children[index + 1] : undefined }))
+    .filter(x => tagOf(x.element) !== 'hashTree');
+}
+
+function argumentsOf(element: XmlNode | undefined): Properties {
+  const collection = childrenOf(element).find(x => tagOf(x) === 'collectionProp');
+  return elementsOf(collection, 'elementProp').reduce<Properties>((a, x) => {
+    const name = propertyOf(x, 'Argument.name') || attributeOf(x, 'name');
+    if (name) a[name] = propertyOf(x, 'Argument.value') ?? '';
+    return a;
+  }, {});
+}
+
+function isEnabled(element: XmlNode) {
+  return attributeOf(element, 'enabled') !== 'false';
+}
+
+function describeThreadGroup(element: XmlNode, name: string, type: string, enabled: boolean): ThreadGroupDescriptor {
+  const scheduled = propertyOf(element, 'ThreadGroup.scheduler') === 'true';
+  return {
+    name: name,
+    type: type,
+    enabled: enabled,
+    threads: propertyOf(element, 'ThreadGroup.num_threads'),
+    rampUp: propertyOf(element, 'ThreadGroup.ramp_time'),
+    duration: scheduled ? propertyOf(element, 'ThreadGroup.duration') : undefined,
+    loops: propertyOf(element, 'LoopController.loops'),
+  } as ThreadGroupDescriptor;
+}
+
+export function describeTestPlan(body: string): TestPlanDescriptor {
+  if (!body.trim()) {
+    throw new BadRequestError('Invalid jmeter test, the document is empty');
+  }
+
+  const validation = XMLValidator.validate(body);
+  if (validation !== true) {
+    const { line, col, msg } = validation.err;
+    throw new BadRequestError(`Invalid jmeter test, not a valid XML document (line ${line}${col ? `, column ${col}` : ''}): ${msg}`);
+  }
+
+  const document = parser.parse(body) as XmlNode[];
+  const root = document.find(x => tagOf(x) === 'jmeterTestPlan');
+  if (!root) {
+    const found = document.map(x => tagOf(x)).filter(x => !x.startsWith('?') && !x.startsWith('#'));
+    throw new BadRequestError(`Invalid jmeter test, expected root element 'jmeterTestPlan' but found ${found.length ? found.map(x => `'${x}'`).join(', ') : 'none'}`);
+  }
+
+  const rootTree = elementsOf(root, 'hashTree')[0];
+  const testPlanEntry = entriesOf(rootTree).find(x => tagOf(x.element) === 'TestPlan');
+  if (!testPlanEntry) {
+    throw new BadRequestError(`Invalid jmeter test, missing element 'jmeterTestPlan/hashTree/TestPlan'`);
+  }
+
+  const testPlan = testPlanEntry.element;
+  const name = attributeOf(testPlan, 'testname')?.trim();
+  if (!name) {
+    throw new BadRequestError(`Invalid jmeter test, element 'TestPlan' has no 'testname' attribute`);
+  }
+
+  const variables = argumentsOf(childrenOf(testPlan).find(x => attributeOf(x, 'name') === userDefinedVariables));
+  let labels: Properties = {};
+  let thresholds: string[] = [];
+  entriesOf(testPlanEntry.tree)
+    .filter(x => tagOf(x.element) === 'Arguments' && isEnabled(x.element))
+    .forEach(({ element }) => {
+      const values = argumentsOf(element);
+      switch (attributeOf(element, 'testname')) {
+        case labelsArguments:
+          labels = { ...labels, ...values };
+          break;
+        case thresholdsArguments:
+          thresholds = [...thresholds, ...Object.values(values).filter(x => !!x)];
+          break;
+        default:
+          Object.assign(variables, values);
+          break;
+      }
+    });
+
+  const threadGroups: ThreadGroupDescriptor[] = [];
+  const samplers: SamplerDescriptor[] = [];
+  const walk = (tree: XmlNode | undefined, threadGroup: string | undefined, enabled: boolean) => entriesOf(tree).forEach(({ element, tree }) => {
+    const type = attributeOf(element, 'testclass') || tagOf(element);
+    const elementName = attributeOf(element, 'testname') || type;
+    const elementEnabled = enabled && isEnabled(element);
+
+    if (threadGroupPattern.test(type)) {
+      threadGroups.push(describeThreadGroup(element, elementName, type, elementEnabled));
+      walk(tree, elementName, elementEnabled);
+    } else {
+      if (samplerPattern.test(type)) {
+        samplers.push({ name: elementName, type: type, enabled: elementEnabled, threadGroup: threadGroup } as SamplerDescriptor);
+      }
+      walk(tree, threadGroup, elementEnabled);
+    }
+  });
+  walk(testPlanEntry.tree, undefined, true);
+
+  if (!threadGroups.some(x => x.enabled)) {
+    throw new BadRequestError(threadGroups.length
+      ? `Invalid jmeter test, all thread groups are disabled (${threadGroups.map(x => x.name).join(', ')})`
+      : `Invalid jmeter test, no thread group found`);
+  }
+
+  return {
+    name: name,
+    threadGroups: threadGroups,
+    samplers: samplers,
+    variables: variables,
+    labels: labels,
+    thresholds: thresholds,
+  };
+}
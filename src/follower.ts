@@ -0,0 +1,97 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+
+import { LabelStatistics, Sample } from './interfaces';
+import { calculateStatistics, parseCsvSample, splitCsvLine, totalLabel } from './report';
+
+const pollIntervalInMilliseconds = 1000;
+const chunkSize = 1048576;
+
+export class ReportFollower {
+  private _offset = 0;
+  private _remainder = '';
+  private _decoder = new StringDecoder('utf8');
+  private _columns: string[] | undefined;
+  private _samples: Sample[] = [];
+  private _started = Date.now();
+  private _reading = false;
+  private _timer: NodeJS.Timeout | undefined;
+
+  constructor(private _file: string, private _windowInMilliseconds: number) {
+    this._timer = setInterval(() => this._poll(), pollIntervalInMilliseconds).unref();
+  }
+
+  private async _poll() {
+    if (this._reading || !fs.existsSync(this._file)) return;
+
+    this._reading = true;
+    try {
+      const handle = await fsp.open(this._file, 'r');
+      try {
+        const { size } = await handle.stat();
+        while (this._timer && this._offset < size) {
+          const { buffer, bytesRead } = await handle.read(Buffer.alloc(Math.min(chunkSize, size - this._offset)), 0, Math.min(chunkSize, size - this._offset), this._offset);
+          if (!bytesRead) break;
+          this._offset += bytesRead;
+          this._append(this._decoder.write(buffer.subarray(0, bytesRead)));
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      console.warn(`[WARN] Cannot follow report ${this._file} because: ${error}`);
+    } finally {
+      this._reading = false;
+    }
+  }
+
+  private _append(text: string) {
+    const lines = (this._remainder + text).split(/\r?\n/);
+    this._remainder = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      if (!this._columns) {
+        if (line.trimStart().startsWith('<')) {
+          console.warn(`[WARN] Cannot follow report ${this._file} because only CSV reports are supported`);
+          this.stop();
+          return;
+        }
+        this._columns = splitCsvLine(line);
+        continue;
+      }
+
+      const sample = parseCsvSample(this._columns, splitCsvLine(line));
+      if (!Number.isNaN(sample.timestamp) && !Number.isNaN(sample.elapsed)) {
+        this._samples.push(sample);
+      }
+    }
+    this._prune();
+  }
+
+  private _prune() {
+    const since = Date.now() - this._windowInMilliseconds;
+    this._samples = this._samples.filter(x => x.timestamp + x.elapsed >= since);
+  }
+
+  public statistics(): LabelStatistics[] {
+    this._prune();
+
+    const seconds = Math.min(this._windowInMilliseconds, Date.now() - this._started) / 1000;
+    const withThroughput = (statistics: LabelStatistics) => ({ ...statistics, throughput: seconds > 0 ? statistics.samples / seconds : 0 });
+
+    const labels = [...new Set(this._samples.map(x => x.label))].sort();
+    return [
+      withThroughput(calculateStatistics(totalLabel, this._samples)),
+      ...labels.map(label => withThroughput(calculateStatistics(label, this._samples.filter(x => x.label === label)))),
+    ];
+  }
+
+  public stop() {
+    clearInterval(this._timer);
+    this._timer = undefined;
+    this._samples = [];
+  }
+}
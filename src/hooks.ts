@@ -0,0 +1,107 @@
+import cp from 'node:child_process';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+
+import { Hook, HookFailureAction, HookPhase, HookResult, TestRun } from './interfaces';
+
+export const hooksLogName = 'hooks.log';
+
+const defaultTimeoutInSeconds = 300;
+const bodylessMethods = ['GET', 'HEAD'];
+const cancelledError = 'cancelled';
+
+export interface HookOutcome {
+  results: HookResult[];
+  failed?: string;
+  action?: HookFailureAction;
+}
+
+interface HookExecution {
+  output: string;
+  error?: string | undefined;
+}
+
+export class HookRunner {
+  constructor(private _hooks: Hook[], private _cwd: string, private _silent: boolean) {
+    const invalid = _hooks.filter(x => !x.name
+      || !Object.values(HookPhase).includes(x.phase)
+      || !x.url === !x.command
+      || (x.onFailure && !Object.values(HookFailureAction).includes(x.onFailure)));
+    if (invalid.length) {
+      throw new Error(`Invalid hook(s): ${invalid.map(x => x.name || '<unnamed>').join(', ')} (expected a name, a phase from: ${Object.values(HookPhase).join(', ')}, either a url or a command and optionally an onFailure from: ${Object.values(HookFailureAction).join(', ')})`);
+    }
+  }
+
+  private _matching(run: TestRun, phase: HookPhase) {
+    return this._hooks.filter(x => x.phase === phase
+      && (x.category === undefined || x.category === (run.category || ''))
+      && (x.test === undefined || x.test === run.name));
+  }
+
+  private _command(hook: Hook, run: TestRun, cwd: string, signal: AbortSignal | undefined) {
+    const env = {
+      ...process.env,
+      HOOK_PHASE: hook.phase,
+      TEST_RUN_ID: run.id,
+      TEST_RUN_NAME: run.name,
+      TEST_RUN_CATEGORY: run.category || '',
+    };
+    return new Promise<HookExecution>(resolve => {
+      cp.exec(hook.command!, { cwd: cwd, env: env, timeout: (hook.timeout || defaultTimeoutInSeconds) * 1000, signal: signal }, (error, stdout, stderr) => {
+        resolve({ output: `${stdout}${stderr}`, error: error ? (signal?.aborted ? cancelledError : `command failed (${error.code ?? error.signal})`) : undefined });
+      });
+    });
+  }
+
+  private async _request(hook: Hook, run: TestRun, signal: AbortSignal | undefined): Promise<HookExecution> {
+    const method = (hook.method || 'POST').toUpperCase();
+    const body = JSON.stringify({ phase: hook.phase, run: { id: run.id, category: run.category, name: run.name } });
+    try {
+      const response = await fetch(hook.url!, {
+        method: method,
+        headers: bodylessMethods.includes(method) ? {} : { 'content-type': 'application/json' },
+        body: bodylessMethods.includes(method) ? null : body,
+        signal: AbortSignal.any([AbortSignal.timeout((hook.timeout || defaultTimeoutInSeconds) * 1000), ...(signal ? [signal] : [])]),
+      });
+      const output = await response.text();
+      return { output: output, error: response.ok ? undefined : `request failed (${response.status} ${response.statusText})` };
+    } catch (error: any) {
+      return { output: '', error: signal?.aborted ? cancelledError : `request failed (${error.message})` };
+    }
+  }
+
+  private async _log(folder: string, result: HookResult, output: string) {
+    if (!fs.existsSync(folder)) return;
+
+    const status = result.success ? 'succeeded' : `failed: ${result.error}`;
+    const content = output && !output.endsWith('\n') ? `${output}\n` : output;
+    await fsp.appendFile(path.join(folder, hooksLogName), `[${result.timestamp}] ${result.phase} hook '${result.name}' ${status} (${result.duration}s)\n${content}`, { encoding: 'utf8' })
+      .catch(error => console.warn(`[WARN] Cannot write output of hook '${result.name}' because: ${error}`));
+  }
+
+  // note: once aborted (e.g. the test run is cancelled), the running hook is stopped and the remaining hooks are skipped
+  public async run(run: TestRun, phase: HookPhase, folder: string, signal?: AbortSignal): Promise<HookOutcome> {
+    const results: HookResult[] = [];
+    for (const hook of this._matching(run, phase)) {
+      if (signal?.aborted) break;
+      if (!this._silent) console.info(`[INFO] Running ${phase} hook '${hook.name}' for test ${run.id}...`);
+
+      const start = Date.now();
+      const cwd = fs.existsSync(folder) ? folder : this._cwd;
+      const { output, error } = hook.command ? await this._command(hook, run, cwd, signal) : await this._request(hook, run, signal);
+      const result: HookResult = { name: hook.name, phase: phase, timestamp: new Date(start).toISOString(), duration: (Date.now() - start) / 1000, success: !error };
+      if (error) {
+        result.error = error;
+      }
+      results.push(result);
+      await this._log(folder, result, output);
+
+      if (error) {
+        console.warn(`[WARN] The ${phase} hook '${hook.name}' failed for test ${run.id} because: ${error}`);
+        return { results: results, failed: hook.name, action: hook.onFailure ?? HookFailureAction.pause };
+      }
+    }
+    return { results: results };
+  }
+}
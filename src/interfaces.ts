@@ -1,52 +1,467 @@
 import { Registry, PrometheusContentType } from 'prom-client';
 
-export interface JMeterStringProp {
-  _name: string,
-  _text: string
-}
-
-export interface JMeterElementProp {
-  _name: string,
-  stringProp: JMeterStringProp | JMeterStringProp[]
-}
-
-export interface JMeterCollectionProp {
-  elementProp: JMeterElementProp | JMeterElementProp[]
+export interface ThreadGroupDescriptor {
+  name: string;
+  type: string;
+  enabled: boolean;
+  threads?: string;
+  rampUp?: string;
+  duration?: string;
+  loops?: string;
 }
 
-export interface JMeterArguments {
-  _testname: string;
-  collectionProp: JMeterCollectionProp;
+export interface SamplerDescriptor {
+  name: string;
+  type: string;
+  enabled: boolean;
+  threadGroup?: string;
 }
 
-export interface JMeterTest {
-  jmeterTestPlan: {
-    hashTree: {
-      TestPlan: {
-        _testname: string
-      },
-      hashTree: {
-        Arguments: JMeterArguments | JMeterArguments[]
-      }
-    }
-  }
+export interface TestPlanDescriptor {
+  name: string;
+  threadGroups: ThreadGroupDescriptor[];
+  samplers: SamplerDescriptor[];
+  variables: Properties;
+  labels: Properties;
+  thresholds: string[];
 }
 
 export enum TestRunStatus {
   running = 'running',
   done = 'done',
   cancelled = 'cancelled',
+  timedout = 'timedout',
   queued = 'queued',
 }
 
+export enum CancelMode {
+  graceful = 'graceful',
+  hard = 'hard',
+}
+
+export enum StorageType {
+  local = 'local',
+  s3 = 's3',
+}
+
+export enum ControllerStatus {
+  idle = 'IDLE',
+  running = 'RUNNING',
+  paused = 'PAUSED',
+}
+
+export enum TestRunVerdict {
+  passed = 'passed',
+  failed = 'failed',
+}
+
+export interface ThresholdViolation {
+  threshold: string;
+  actual?: number;
+  message: string;
+}
+
+export type Properties = { [x in string]: string };
+
 export interface TestRun {
   id: string;
   category?: string;
+  lane?: string;
+  schedule?: string;
   name: string;
   timestamp: string;
   status: TestRunStatus;
   code: number | undefined;
   duration: number | undefined;
+  thresholds?: string[];
+  properties?: Properties;
+  globalProperties?: Properties;
+  verdict?: TestRunVerdict;
+  violations?: ThresholdViolation[];
+  baseline?: string;
+  regression?: boolean;
+  labels?: Properties;
+  pinned?: boolean;
+  priority?: number;
+  origin?: string;
+  descriptor?: TestPlanDescriptor;
+  workers?: string[];
+  maxDuration?: number;
+  graceful?: boolean;
+  hooks?: HookResult[];
+}
+
+export interface TestRunOptions {
+  category?: string | undefined;
+  lane?: string | undefined;
+  schedule?: string | undefined;
+  thresholds?: string[] | undefined;
+  properties?: Properties | undefined;
+  globalProperties?: Properties | undefined;
+  priority?: number | undefined;
+  workers?: string[] | undefined;
+  maxDuration?: number | undefined;
+}
+
+export interface TestRunRequest extends TestRunOptions {
+  test: string;
+}
+
+export interface TestScheduleOptions extends TestRunOptions {
+  cron?: string | undefined;
+  timezone?: string | undefined;
+  enabled?: boolean | undefined;
+}
+
+export interface TestScheduleRequest extends TestScheduleOptions {
+  test: string;
+}
+
+export interface TestSchedule extends TestRunOptions {
+  id: string;
+  name: string;
+  cron: string;
+  timezone?: string;
+  enabled: boolean;
+  created: string;
+  lastRun?: string;
+  lastRunId?: string;
+  nextRun?: string;
+}
+
+export interface BundleFile {
+  name: string;
+  content: Buffer;
+}
+
+export interface BundleLimits {
+  maxExtractedSize: number;
+}
+
+export interface TestBundle {
+  test: string;
+  files: BundleFile[];
+}
+
+export interface TestRunLinks {
+  self: string;
+  status: string;
+  results?: string;
+  summary?: string;
+  log?: string;
+  test?: string;
+  comparison?: string;
+  diff?: string;
+  origin?: string;
+  hooks?: string;
+}
+
+export interface TestRunInfo extends TestRun {
+  position?: number;
+  estimatedStart?: string;
+  links: TestRunLinks;
+}
+
+export interface TestRunsOverview {
+  status: ControllerStatus;
+  queued: TestRunInfo[];
+  running: TestRunInfo[];
+  completed: TestRunInfo[];
+}
+
+export interface ControllerStatusInfo {
+  status: ControllerStatus;
+  queued: number;
+  running: number;
+  maxRunning: number;
+}
+
+export interface Sample {
+  timestamp: number;
+  elapsed: number;
+  label: string;
+  success: boolean;
+}
+
+export interface LabelStatistics {
+  label: string;
+  samples: number;
+  errors: number;
+  errorRate: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  throughput: number;
+}
+
+export interface TestRunSummary {
+  id: string;
+  category?: string;
+  name: string;
+  start: string | undefined;
+  end: string | undefined;
+  total: LabelStatistics;
+  labels: LabelStatistics[];
+}
+
+export type ThresholdMetric = Exclude<keyof LabelStatistics, 'label'>;
+
+export type ThresholdOperator = '<' | '<=' | '>' | '>=';
+
+export interface Threshold {
+  rule: string;
+  metric: ThresholdMetric;
+  label: string | undefined;
+  operator: ThresholdOperator;
+  value: number;
+}
+
+export interface Baseline {
+  id: string;
+  category?: string;
+  name: string;
+}
+
+export interface BaselineTolerance {
+  latency: number;
+  errorRate: number;
+  throughput: number;
+}
+
+export type ComparisonMetric = 'mean' | 'p50' | 'p90' | 'p95' | 'p99' | 'errorRate' | 'throughput';
+
+export interface MetricComparison {
+  metric: ComparisonMetric;
+  baseline: number;
+  current: number;
+  delta: number;
+  change: number | undefined;
+  regression: boolean;
+}
+
+export interface LabelComparison {
+  label: string;
+  missing?: 'baseline' | 'current';
+  metrics: MetricComparison[];
+  regression: boolean;
+}
+
+export interface TestRunComparison {
+  id: string;
+  baseline: string;
+  category?: string;
+  name: string;
+  tolerance: BaselineTolerance;
+  regression: boolean;
+  total: LabelComparison;
+  labels: LabelComparison[];
+}
+
+export interface TestRunHistoryEntry {
+  id: string;
+  timestamp: string;
+  duration: number | undefined;
+  p95: number | undefined;
+  errorRate: number | undefined;
+  throughput: number | undefined;
+  verdict?: TestRunVerdict;
+  regression?: boolean;
+  labels: Properties;
+}
+
+export interface TestRunHistory {
+  category?: string;
+  name: string;
+  labels: Properties;
+  runs: TestRunHistoryEntry[];
+}
+
+export interface RetentionPolicy {
+  keepRuns: number;
+  maxAgeInDays: number;
+  maxDiskUsage: number;
+  sweepIntervalInMinutes: number;
+}
+
+export enum RetentionReason {
+  count = 'count',
+  age = 'age',
+  disk = 'disk',
+}
+
+export interface RetentionCandidate {
+  id: string;
+  category?: string;
+  name: string;
+  timestamp: string;
+  size: number;
+  reason: RetentionReason;
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  policy: RetentionPolicy;
+  usage: number;
+  freed: number;
+  runs: RetentionCandidate[];
+}
+
+export enum BulkAction {
+  cancel = 'cancel',
+  delete = 'delete',
+  requeue = 'requeue',
+}
+
+export interface TestRunFilter {
+  category?: string | undefined;
+  name?: string | undefined;
+  status?: TestRunStatus[] | undefined;
+  failed?: boolean | undefined;
+  before?: string | undefined;
+  after?: string | undefined;
+}
+
+export interface BulkOperationRun {
+  id: string;
+  category?: string;
+  name: string;
+  timestamp: string;
+  status: TestRunStatus;
+  requeued?: string;
+}
+
+export interface BulkOperationReport {
+  action: BulkAction;
+  confirmed: boolean;
+  filter: TestRunFilter;
+  runs: BulkOperationRun[];
+}
+
+export interface TestRunProgress {
+  cumulative: boolean;
+  samples: number;
+  elapsed: number;
+  throughput: number;
+  mean: number;
+  min: number;
+  max: number;
+  errors: number;
+  errorRate: number;
+  activeThreads?: number;
+  startedThreads?: number;
+  finishedThreads?: number;
+}
+
+export type TestRunStreamEvent =
+  { event: 'output', data: string } |
+  { event: 'progress', data: TestRunProgress } |
+  { event: 'end', data: { status: TestRunStatus } };
+
+export enum WebhookEvent {
+  testStarted = 'test.started',
+  testCompleted = 'test.completed',
+  testCancelled = 'test.cancelled',
+  testTimedOut = 'test.timedout',
+  runnerPaused = 'runner.paused',
+  runnerResumed = 'runner.resumed',
+}
+
+export interface JMeterWorker {
+  name: string;
+  host: string;
+  port?: number;
+}
+
+export enum WorkerHealth {
+  unknown = 'unknown',
+  healthy = 'healthy',
+  unhealthy = 'unhealthy',
+}
+
+export interface JMeterWorkerStatus extends Required<JMeterWorker> {
+  health: WorkerHealth;
+  lastCheck?: string;
+  error?: string;
+  testRun?: string;
+}
+
+export interface Webhook {
+  url: string;
+  events?: WebhookEvent[];
+  secret?: string;
+}
+
+export enum HookPhase {
+  setup = 'setup',
+  teardown = 'teardown',
+}
+
+export enum HookFailureAction {
+  fail = 'fail',
+  pause = 'pause',
+}
+
+export interface Hook {
+  name: string;
+  phase: HookPhase;
+  category?: string;
+  test?: string;
+  url?: string;
+  method?: string;
+  command?: string;
+  timeout?: number;
+  onFailure?: HookFailureAction;
+}
+
+export interface HookResult {
+  name: string;
+  phase: HookPhase;
+  timestamp: string;
+  duration: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface S3StorageOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  prefix: string;
+  accessKey: string;
+  secretKey: string;
+  timeoutInSeconds: number;
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  status: ControllerStatus;
+  run?: TestRun;
+  code?: number | null | undefined;
+  duration?: number | undefined;
+  summary?: TestRunSummary | undefined;
+  links?: TestRunLinks;
+}
+
+export enum WebhookDeliveryStatus {
+  pending = 'pending',
+  delivered = 'delivered',
+  failed = 'failed',
+}
+
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  timestamp: string;
+  attempts: number;
+  status: WebhookDeliveryStatus;
+  statusCode?: number;
+  error?: string;
 }
 
 export interface AuthKeys {
@@ -55,13 +470,60 @@ export interface AuthKeys {
   deleteTest: string,
 }
 
+export enum TokenScope {
+  run = 'run',
+  check = 'check',
+  delete = 'delete',
+  audit = 'audit',
+}
+
+export interface ApiToken {
+  name: string;
+  hash: string;
+  scopes: TokenScope[];
+  rateLimit?: number;
+}
+
+export interface Identity {
+  name: string;
+  scopes: TokenScope[];
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  actor: string;
+  action: string;
+  target?: string;
+  ip: string;
+}
+
 export interface ControllerConfig {
   cwd: string,
   testFolder: string,
   tempFolder: string,
   refreshTimeInSeconds: number,
+  maxRunning: number,
   silent: boolean,
   register: Registry<PrometheusContentType>,
   customLabels: string[],
-  keys: AuthKeys,
+  publicUrl: string,
+  webhooks: Webhook[],
+  webhookRetries: number,
+  tolerance: BaselineTolerance,
+  liveWindowInSeconds: number,
+  retention: RetentionPolicy,
+  workers: JMeterWorker[],
+  workerHealthIntervalInSeconds: number,
+  workerRmiSsl: boolean,
+  maxDurationInSeconds: number,
+  timeoutGracePeriodInSeconds: number,
+  pauseOnTimeout: boolean,
+  shutdownPort: number,
+  cancelMode: CancelMode,
+  resumeUrl: string,
+  resumeScript: string,
+  resumeIntervalInSeconds: number,
+  hooks: Hook[],
+  storage: StorageType,
+  s3: S3StorageOptions,
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { TestRun } from './interfaces';
+
+// note: a test run without lane nor category has no lane, i.e. it is only limited by the maximum number of running test runs
+export function laneOf(run: TestRun): string | undefined {
+  return (run.lane ?? run.category) || undefined;
+}
+
+export function selectRunnableTests(running: TestRun[], queued: TestRun[], maxRunning: number, isHealthy: (worker: string) => boolean): TestRun[] {
+  const busyLanes = new Set(running.map(x => laneOf(x)).filter(x => x !== undefined));
+  const busyWorkers = new Set(running.flatMap(x => x.workers || []));
+  const runnable: TestRun[] = [];
+
+  for (const run of queued) {
+    if (running.length + runnable.length >= maxRunning) break;
+
+    const lane = laneOf(run);
+    if (lane !== undefined && busyLanes.has(lane)) continue;
+
+    const workers = run.workers || [];
+    if (workers.some(x => busyWorkers.has(x) || !isHealthy(x))) continue;
+
+    if (lane !== undefined) busyLanes.add(lane);
+    workers.forEach(x => busyWorkers.add(x));
+    runnable.push(run);
+  }
+  return runnable;
+}
+
+export function estimateStartTimes(running: TestRun[], queued: TestRun[], maxRunning: number, duration: (run: TestRun) => number, now: number = Date.now()) {
+  const estimates: { [key: string]: string } = {};
+  const slots = running.map(x => Math.max(now, Date.parse(x.timestamp) + duration(x)));
+  while (slots.length < maxRunning) slots.push(now);
+
+  const lanes = new Map<string, number>();
+  running.forEach((x, index) => {
+    const lane = laneOf(x);
+    if (lane !== undefined) lanes.set(lane, Math.max(lanes.get(lane) ?? now, slots[index]!));
+  });
+
+  for (const run of queued) {
+    const lane = laneOf(run);
+    slots.sort((f, s) => f - s);
+    const start = Math.max(slots[0]!, lane === undefined ? now : lanes.get(lane) ?? now);
+    slots[0] = start + duration(run);
+    if (lane !== undefined) lanes.set(lane, slots[0]);
+    estimates[run.id] = new Date(start).toISOString();
+  }
+  return estimates;
+}
@@ -0,0 +1,155 @@
+import _ from 'lodash';
+import { Counter, Gauge, Histogram, PrometheusContentType, Registry } from 'prom-client';
+
+import { ControllerStatus, ControllerStatusInfo, LabelStatistics, Sample, TestRun, TestRunSummary } from './interfaces';
+import { ReportFollower } from './follower';
+
+const latencyBuckets = [50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+const quantiles: { [key: string]: 'p50' | 'p90' | 'p95' | 'p99' } = { '0.5': 'p50', '0.9': 'p90', '0.95': 'p95', '0.99': 'p99' };
+
+type MetricLabels = { [x in string]: string | undefined };
+
+interface FollowedTestRun {
+  labels: MetricLabels;
+  follower: ReportFollower;
+}
+
+export class TestRunMetrics {
+  private _testRuns: Counter;
+  private _samplerLatency: Gauge;
+  private _samplerErrorRate: Gauge;
+  private _samplerThroughput: Gauge;
+  private _samplerSamples: Gauge;
+  private _sampleLatency: Histogram;
+  private _labelNames: string[];
+  private _followed: { [key: string]: FollowedTestRun } = {};
+
+  constructor(register: Registry<PrometheusContentType>, private _customLabels: string[], private _liveWindowInSeconds: number, status: () => ControllerStatusInfo) {
+    const defaultLabels = ['category', 'name'];
+    this._labelNames = [...this._customLabels, ...defaultLabels];
+
+    this._testRuns = new Counter({
+      name: 'jmeter_test_runs_total',
+      help: 'number of completed test runs by final status and exit code',
+      labelNames: [...defaultLabels, 'status', 'code'],
+    });
+
+    const queued = new Gauge({
+      name: 'jmeter_runner_queued',
+      help: 'number of queued test runs',
+      collect() { this.set(status().queued); },
+    });
+    const running = new Gauge({
+      name: 'jmeter_runner_running',
+      help: 'number of running test runs',
+      collect() { this.set(status().running); },
+    });
+    const paused = new Gauge({
+      name: 'jmeter_runner_paused',
+      help: 'whether the runner is paused (1) or not (0)',
+      collect() { this.set(status().status === ControllerStatus.paused ? 1 : 0); },
+    });
+
+    const samplerLabels = [...this._labelNames, 'sampler'];
+    this._samplerLatency = new Gauge({
+      name: 'jmeter_sampler_latency',
+      help: 'jmeter sampler latency percentiles of the last test run (in milliseconds)',
+      labelNames: [...samplerLabels, 'quantile'],
+    });
+    this._samplerErrorRate = new Gauge({
+      name: 'jmeter_sampler_error_rate',
+      help: 'jmeter sampler error rate of the last test run (as a fraction)',
+      labelNames: samplerLabels,
+    });
+    this._samplerThroughput = new Gauge({
+      name: 'jmeter_sampler_throughput',
+      help: 'jmeter sampler throughput of the last test run (in samples per second)',
+      labelNames: samplerLabels,
+    });
+    this._samplerSamples = new Gauge({
+      name: 'jmeter_sampler_samples',
+      help: 'jmeter sampler number of samples of the last test run',
+      labelNames: samplerLabels,
+    });
+    this._sampleLatency = new Histogram({
+      name: 'jmeter_sample_latency',
+      help: 'jmeter sample latency of all test runs (in milliseconds)',
+      labelNames: samplerLabels,
+      buckets: latencyBuckets,
+    });
+
+    const liveLatency = new Gauge({
+      name: 'jmeter_live_latency',
+      help: `jmeter sampler latency percentiles of the running test runs over the last ${_liveWindowInSeconds} seconds (in milliseconds)`,
+      labelNames: [...samplerLabels, 'quantile'],
+      // note: collects all live gauges at once, as this one is collected first
+      collect: () => {
+        [liveLatency, liveErrorRate, liveThroughput, liveSamples].forEach(x => x.reset());
+        Object.values(this._followed).forEach(({ labels, follower }) => follower.statistics().forEach(statistics => {
+          const samplerLabels = { ...labels, sampler: statistics.label };
+          this._setLatency(liveLatency, samplerLabels, statistics);
+          liveErrorRate.set(samplerLabels, statistics.errorRate);
+          liveThroughput.set(samplerLabels, statistics.throughput);
+          liveSamples.set(samplerLabels, statistics.samples);
+        }));
+      },
+    });
+    const liveErrorRate = new Gauge({
+      name: 'jmeter_live_error_rate',
+      help: `jmeter sampler error rate of the running test runs over the last ${_liveWindowInSeconds} seconds (as a fraction)`,
+      labelNames: samplerLabels,
+    });
+    const liveThroughput = new Gauge({
+      name: 'jmeter_live_throughput',
+      help: `jmeter sampler throughput of the running test runs over the last ${_liveWindowInSeconds} seconds (in samples per second)`,
+      labelNames: samplerLabels,
+    });
+    const liveSamples = new Gauge({
+      name: 'jmeter_live_samples',
+      help: `jmeter sampler number of samples of the running test runs over the last ${_liveWindowInSeconds} seconds`,
+      labelNames: samplerLabels,
+    });
+
+    [this._testRuns, queued, running, paused, this._samplerLatency, this._samplerErrorRate, this._samplerThroughput, this._samplerSamples, this._sampleLatency, liveLatency, liveErrorRate, liveThroughput, liveSamples]
+      .forEach(x => register.registerMetric(x));
+  }
+
+  private _setLatency(gauge: Gauge, labels: MetricLabels, statistics: LabelStatistics) {
+    Object.entries(quantiles).forEach(([quantile, metric]) => gauge.set({ ...labels, quantile: quantile }, statistics[metric]));
+  }
+
+  private _labels(labels: MetricLabels, run: TestRun) {
+    return { ..._.pick(labels, this._customLabels), category: run.category, name: run.name };
+  }
+
+  public countTestRun(run: TestRun) {
+    this._testRuns.inc({ category: run.category, name: run.name, status: run.status, code: run.code ?? '' });
+  }
+
+  public follow(labels: MetricLabels, run: TestRun, report: string) {
+    this.unfollow(run.id);
+    this._followed[run.id] = { labels: this._labels(labels, run), follower: new ReportFollower(report, this._liveWindowInSeconds * 1000) };
+  }
+
+  public unfollow(id: string) {
+    this._followed[id]?.follower.stop();
+    delete this._followed[id];
+  }
+
+  public observeResults(labels: MetricLabels, run: TestRun, samples: Sample[], summary: TestRunSummary) {
+    const runLabels = this._labels(labels, run);
+
+    [summary.total, ...summary.labels].forEach(statistics => {
+      const samplerLabels = { ...runLabels, sampler: statistics.label };
+      this._setLatency(this._samplerLatency, samplerLabels, statistics);
+      this._samplerErrorRate.set(samplerLabels, statistics.errorRate);
+      this._samplerThroughput.set(samplerLabels, statistics.throughput);
+      this._samplerSamples.set(samplerLabels, statistics.samples);
+    });
+
+    _.forEach(_.groupBy(samples, x => x.label), (values, sampler) => {
+      const histogram = this._sampleLatency.labels({ ...runLabels, sampler: sampler });
+      values.forEach(x => histogram.observe(x.elapsed));
+    });
+  }
+}
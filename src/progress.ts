@@ -0,0 +1,27 @@
+import { TestRunProgress } from './interfaces';
+
+const summaryPattern = /^summary\s+([+=])\s+(\d+)\s+in\s+(\d+):(\d{2}):(\d{2})\s+=\s+([\d.]+)\/s\s+Avg:\s+(\d+)\s+Min:\s+(\d+)\s+Max:\s+(\d+)\s+Err:\s+(\d+)\s+\(([\d.]+)%\)(?:\s+Active:\s+(\d+)\s+Started:\s+(\d+)\s+Finished:\s+(\d+))?/;
+
+export function parseSummaryLine(line: string): TestRunProgress | undefined {
+  const match = summaryPattern.exec(line.trim());
+  if (!match) return undefined;
+
+  const [, kind, samples, hours, minutes, seconds, throughput, avg, min, max, errors, errorPercentage, active, started, finished] = match;
+  const progress: TestRunProgress = {
+    cumulative: kind === '=',
+    samples: Number.parseInt(samples!),
+    elapsed: Number.parseInt(hours!) * 3600 + Number.parseInt(minutes!) * 60 + Number.parseInt(seconds!),
+    throughput: Number.parseFloat(throughput!),
+    mean: Number.parseInt(avg!),
+    min: Number.parseInt(min!),
+    max: Number.parseInt(max!),
+    errors: Number.parseInt(errors!),
+    errorRate: Number.parseFloat(errorPercentage!) / 100,
+  };
+  if (active !== undefined) {
+    progress.activeThreads = Number.parseInt(active);
+    progress.startedThreads = Number.parseInt(started!);
+    progress.finishedThreads = Number.parseInt(finished!);
+  }
+  return progress;
+}
@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import readline from 'node:readline';
+import { XMLParser } from 'fast-xml-parser';
+
+import { LabelStatistics, Sample } from './interfaces';
+
+export const totalLabel = 'Total';
+
+const xmlSampleNames = ['httpSample', 'sample'];
+
+interface XmlSample {
+  _t?: string;
+  _ts?: string;
+  _lb?: string;
+  _s?: string;
+}
+
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseTimestamp(value: string) {
+  return /^\d+$/.test(value) ? Number.parseInt(value) : Date.parse(value);
+}
+
+export function parseCsvSample(columns: string[], fields: string[]): Sample {
+  const field = (name: string) => fields[columns.indexOf(name)] || '';
+  return {
+    timestamp: parseTimestamp(field('timeStamp')),
+    elapsed: Number.parseInt(field('elapsed')),
+    label: field('label'),
+    success: field('success') === 'true',
+  };
+}
+
+async function isXmlReport(fullPathName: string) {
+  const handle = await fsp.open(fullPathName, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(256), 0, 256, 0);
+    return buffer.subarray(0, bytesRead).toString('utf8').trimStart().startsWith('<');
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readCsvReport(fullPathName: string): Promise<Sample[]> {
+  const samples: Sample[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(fullPathName, { encoding: 'utf8' }), crlfDelay: Infinity });
+
+  let columns: string[] | undefined;
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    const fields = splitCsvLine(line);
+    if (!columns) {
+      columns = fields;
+      continue;
+    }
+
+    samples.push(parseCsvSample(columns, fields));
+  }
+  return samples;
+}
+
+async function readXmlReport(fullPathName: string): Promise<Sample[]> {
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '_', isArray: (name) => xmlSampleNames.includes(name) });
+  const parsed = parser.parse(await fsp.readFile(fullPathName, { encoding: 'utf8' }));
+  const results = parsed?.testResults || {};
+  const elements: XmlSample[] = xmlSampleNames.flatMap(x => results[x] || []);
+  return elements.map(x => ({
+    timestamp: parseTimestamp(x._ts || ''),
+    elapsed: Number.parseInt(x._t || ''),
+    label: x._lb || '',
+    success: x._s === 'true',
+  }));
+}
+
+export async function readReport(fullPathName: string): Promise<Sample[]> {
+  const samples = (await isXmlReport(fullPathName))
+    ? await readXmlReport(fullPathName)
+    : await readCsvReport(fullPathName);
+  return samples.filter(x => !Number.isNaN(x.timestamp) && !Number.isNaN(x.elapsed));
+}
+
+function timeRange(samples: Sample[]) {
+  return samples.reduce((a, x) => ({ start: Math.min(a.start, x.timestamp), end: Math.max(a.end, x.timestamp + x.elapsed) }), { start: Infinity, end: -Infinity });
+}
+
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const rank = Math.ceil(p / 100 * sorted.length);
+  return sorted[Math.max(rank - 1, 0)]!;
+}
+
+export function calculateStatistics(label: string, samples: Sample[]): LabelStatistics {
+  const elapsed = samples.map(x => x.elapsed).sort((a, b) => a - b);
+  const errors = samples.filter(x => !x.success).length;
+  const { start, end } = timeRange(samples);
+  const seconds = samples.length ? (end - start) / 1000 : 0;
+  return {
+    label: label,
+    samples: samples.length,
+    errors: errors,
+    errorRate: samples.length ? errors / samples.length : 0,
+    min: elapsed[0] || 0,
+    max: elapsed[elapsed.length - 1] || 0,
+    mean: samples.length ? elapsed.reduce((a, x) => a + x, 0) / samples.length : 0,
+    p50: percentile(elapsed, 50),
+    p90: percentile(elapsed, 90),
+    p95: percentile(elapsed, 95),
+    p99: percentile(elapsed, 99),
+    throughput: seconds > 0 ? samples.length / seconds : 0,
+  };
+}
+
+export function summarize(samples: Sample[]) {
+  const byLabel = new Map<string, Sample[]>();
+  samples.forEach(x => {
+    const group = byLabel.get(x.label);
+    if (group) group.push(x); else byLabel.set(x.label, [x]);
+  });
+
+  const labels = [...byLabel.keys()].sort().map(x => calculateStatistics(x, byLabel.get(x)!));
+  const total = calculateStatistics(totalLabel, samples);
+  const range = timeRange(samples);
+  const start = samples.length ? new Date(range.start).toISOString() : undefined;
+  const end = samples.length ? new Date(range.end).toISOString() : undefined;
+  return { start, end, total, labels };
+}
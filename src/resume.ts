@@ -0,0 +1,71 @@
+import cp from 'node:child_process';
+
+const requestTimeoutInMilliseconds = 10000;
+const scriptTimeoutInMilliseconds = 600000;
+
+export type ResumeCallback = () => void;
+
+export class ResumeCondition {
+  private _timer: NodeJS.Timeout | undefined;
+  private _checking = false;
+
+  constructor(private _url: string, private _script: string, private _cwd: string, private _intervalInSeconds: number, private _silent: boolean, private _resume: ResumeCallback) { }
+
+  public get enabled() {
+    return !!(this._url || this._script);
+  }
+
+  public get waiting() {
+    return !!this._timer;
+  }
+
+  private _runScript() {
+    return new Promise<string | undefined>(resolve => {
+      cp.exec(this._script, { cwd: this._cwd, timeout: scriptTimeoutInMilliseconds }, (error, _, stderr) => {
+        resolve(error ? `script failed (${error.code ?? error.signal}): ${stderr.trim() || error.message.trim()}` : undefined);
+      });
+    });
+  }
+
+  private async _checkUrl() {
+    try {
+      const response = await fetch(this._url, { signal: AbortSignal.timeout(requestTimeoutInMilliseconds) });
+      return response.ok ? undefined : `health check returned ${response.status} ${response.statusText}`;
+    } catch (error: any) {
+      return `health check failed: ${error.message}`;
+    }
+  }
+
+  private async _check() {
+    if (this._checking) return;
+
+    this._checking = true;
+    try {
+      const error = (this._script && await this._runScript()) || (this._url && await this._checkUrl()) || undefined;
+      if (!this._timer) return;
+
+      if (error) {
+        console.debug(`[DEBUG] Resume condition not met because: ${error}`);
+        return;
+      }
+
+      if (!this._silent) console.info('[INFO] Resume condition met, resuming...');
+      this.stop();
+      this._resume();
+    } finally {
+      this._checking = false;
+    }
+  }
+
+  public start() {
+    if (!this.enabled || this._timer) return;
+
+    if (!this._silent) console.info(`[INFO] Waiting for resume condition (checking every ${this._intervalInSeconds} second(s))...`);
+    this._timer = setInterval(() => this._check(), this._intervalInSeconds * 1000).unref();
+  }
+
+  public stop() {
+    clearInterval(this._timer);
+    this._timer = undefined;
+  }
+}
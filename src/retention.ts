@@ -0,0 +1,49 @@
+import _ from 'lodash';
+
+import { RetentionCandidate, RetentionPolicy, RetentionReason, TestRun } from './interfaces';
+
+const dayInMilliseconds = 86400000;
+
+export interface RetainedTestRun {
+  run: TestRun;
+  size: number;
+  protected: boolean;
+}
+
+export function selectExpiredRuns(runs: RetainedTestRun[], policy: RetentionPolicy, now: number = Date.now()): RetentionCandidate[] {
+  const expired = new Map<string, RetentionReason>();
+  const expire = (run: TestRun, reason: RetentionReason) => {
+    if (!expired.has(run.id)) expired.set(run.id, reason);
+  };
+
+  const newestFirst = _.orderBy(runs, x => Date.parse(x.run.timestamp), 'desc');
+
+  if (policy.keepRuns) {
+    const byTest = _.groupBy(newestFirst, x => JSON.stringify([x.run.category || '', x.run.name]));
+    Object.values(byTest).forEach(group => group
+      .slice(policy.keepRuns)
+      .filter(x => !x.protected)
+      .forEach(x => expire(x.run, RetentionReason.count)));
+  }
+
+  if (policy.maxAgeInDays) {
+    const oldest = now - policy.maxAgeInDays * dayInMilliseconds;
+    newestFirst
+      .filter(x => !x.protected && Date.parse(x.run.timestamp) < oldest)
+      .forEach(x => expire(x.run, RetentionReason.age));
+  }
+
+  if (policy.maxDiskUsage) {
+    let usage = newestFirst.filter(x => !expired.has(x.run.id)).reduce((a, x) => a + x.size, 0);
+    for (const x of newestFirst.slice().reverse()) {
+      if (usage <= policy.maxDiskUsage) break;
+      if (x.protected || expired.has(x.run.id)) continue;
+      expire(x.run, RetentionReason.disk);
+      usage -= x.size;
+    }
+  }
+
+  return newestFirst
+    .filter(x => expired.has(x.run.id))
+    .map(x => ({ id: x.run.id, category: x.run.category, name: x.run.name, timestamp: x.run.timestamp, size: x.size, reason: expired.get(x.run.id)! }) as RetentionCandidate);
+}
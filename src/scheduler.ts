@@ -0,0 +1,181 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import _ from 'lodash';
+import { v4 as uuidv4 } from 'uuid';
+import { CronExpressionParser } from 'cron-parser';
+
+import { BadRequestError } from './errors';
+import { BundleFile, TestSchedule, TestScheduleOptions } from './interfaces';
+import { readBundleFiles, writeBundleFiles } from './bundle';
+
+const scheduleName = 'schedule.json';
+const testName = 'test.jmx';
+const bundleFolder = 'bundle';
+const maxTimeout = 2147483647;
+
+export type ScheduleTrigger = (schedule: TestSchedule, test: string, files: BundleFile[]) => Promise<{ id: string }>;
+
+export class Scheduler {
+  private _schedules: { [key: string]: TestSchedule } = {};
+  private _timers: { [key: string]: NodeJS.Timeout } = {};
+
+  constructor(private _folder: string, private _trigger: ScheduleTrigger) { }
+
+  public static validate(cron: string, timezone: string | undefined) {
+    try {
+      CronExpressionParser.parse(cron, timezone ? { tz: timezone } : {});
+    } catch (error: any) {
+      throw new BadRequestError(`Invalid cron expression '${cron}': ${error.message}`);
+    }
+  }
+
+  private _nextRun(schedule: TestSchedule, after: Date = new Date()): Date | undefined {
+    if (!schedule.enabled) return undefined;
+    const expression = CronExpressionParser.parse(schedule.cron, schedule.timezone ? { tz: schedule.timezone, currentDate: after } : { currentDate: after });
+    return expression.next().toDate();
+  }
+
+  private _withNextRun(schedule: TestSchedule): TestSchedule {
+    const next = this._nextRun(schedule);
+    return next ? { ...schedule, nextRun: next.toISOString() } : schedule;
+  }
+
+  private async _write(schedule: TestSchedule) {
+    const folder = path.join(this._folder, schedule.id);
+    await fsp.mkdir(folder, { recursive: true });
+    await fsp.writeFile(path.join(folder, scheduleName), JSON.stringify(schedule), { encoding: 'utf8', flush: true });
+  }
+
+  private _disarm(id: string) {
+    clearTimeout(this._timers[id]);
+    delete this._timers[id];
+  }
+
+  private _arm(schedule: TestSchedule, after?: Date) {
+    this._disarm(schedule.id);
+
+    const next = this._nextRun(schedule, after);
+    if (!next) return;
+
+    const wait = () => {
+      const delay = next.getTime() - Date.now();
+      const timer = setTimeout(() => delay > maxTimeout ? wait() : this._fire(schedule.id, next), Math.min(Math.max(delay, 0), maxTimeout));
+      this._timers[schedule.id] = timer.unref();
+    };
+    wait();
+  }
+
+  private async _fire(id: string, slot: Date) {
+    const schedule = this._schedules[id];
+    if (!schedule?.enabled) return;
+
+    const folder = path.join(this._folder, id);
+    try {
+      const test = await fsp.readFile(path.join(folder, testName), { encoding: 'utf8' });
+      const files = await readBundleFiles(path.join(folder, bundleFolder));
+      const { id: runId } = await this._trigger(schedule, test, files);
+      console.info(`[INFO] Scheduled test ${runId} for schedule ${id}`);
+      this._schedules[id] = { ...schedule, lastRun: new Date().toISOString(), lastRunId: runId };
+      await this._write(this._schedules[id]);
+    } catch (error) {
+      console.error(`[ERROR] Failed to schedule test for schedule ${id} because: `, error);
+    }
+
+    // note: a timer can fire (slightly) early, so the next run is the one after the fired one (unless that already passed)
+    const current = this._schedules[id];
+    if (current) {
+      this._arm(current, new Date(Math.max(slot.getTime(), Date.now())));
+    }
+  }
+
+  public async initialize() {
+    if (!fs.existsSync(this._folder)) {
+      await fsp.mkdir(this._folder, { recursive: true });
+    }
+
+    const ids = (await fsp.readdir(this._folder, { withFileTypes: true })).filter(x => x.isDirectory()).map(x => x.name);
+    for (const id of ids) {
+      const metadata = path.join(this._folder, id, scheduleName);
+      if (fs.existsSync(metadata)) {
+        try {
+          const schedule = JSON.parse(await fsp.readFile(metadata, { encoding: 'utf8' })) as TestSchedule;
+          this._schedules[id] = schedule;
+          this._arm(schedule);
+        } catch (error) {
+          console.error(`[ERROR] Failed to import schedule ${id} because: `, error);
+        }
+      }
+    }
+  }
+
+  public terminate() {
+    Object.keys(this._timers).forEach(id => this._disarm(id));
+  }
+
+  public get schedules(): TestSchedule[] {
+    return Object.values(this._schedules)
+      .map(x => this._withNextRun(x))
+      .sort((f, s) => f.created.localeCompare(s.created));
+  }
+
+  public get upcoming(): TestSchedule[] {
+    return this.schedules
+      .filter(x => !!x.nextRun)
+      .sort((f, s) => Date.parse(f.nextRun!) - Date.parse(s.nextRun!));
+  }
+
+  public get(id: string): TestSchedule | undefined {
+    const schedule = this._schedules[id];
+    return schedule && this._withNextRun(schedule);
+  }
+
+  public async create(test: string, name: string, options: TestScheduleOptions, files: BundleFile[]): Promise<TestSchedule> {
+    if (!options.cron) {
+      throw new BadRequestError('Missing cron expression');
+    }
+    Scheduler.validate(options.cron, options.timezone);
+
+    const schedule = {
+      ...options,
+      id: uuidv4(),
+      name: name,
+      cron: options.cron,
+      enabled: options.enabled ?? true,
+      created: new Date().toISOString(),
+    } as TestSchedule;
+
+    const folder = path.join(this._folder, schedule.id);
+    await fsp.mkdir(folder, { recursive: true });
+    await fsp.writeFile(path.join(folder, testName), test);
+    await writeBundleFiles(path.join(folder, bundleFolder), files);
+    await this._write(schedule);
+
+    this._schedules[schedule.id] = schedule;
+    this._arm(schedule);
+    return this._withNextRun(schedule);
+  }
+
+  public async update(id: string, options: TestScheduleOptions): Promise<TestSchedule | undefined> {
+    const existing = this._schedules[id];
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ..._.omitBy(options, _.isUndefined) } as TestSchedule;
+    Scheduler.validate(updated.cron, updated.timezone);
+    delete updated.nextRun;
+
+    await this._write(updated);
+    this._schedules[id] = updated;
+    this._arm(updated);
+    return this._withNextRun(updated);
+  }
+
+  public async delete(id: string): Promise<boolean> {
+    if (!this._schedules[id]) return false;
+
+    this._disarm(id);
+    delete this._schedules[id];
+    await fsp.rm(path.join(this._folder, id), { recursive: true, force: true });
+    return true;
+  }
+}
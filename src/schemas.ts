@@ -0,0 +1,424 @@
+import { BulkAction, ControllerStatus, HookPhase, RetentionReason, TestRunStatus, TestRunVerdict, WebhookDeliveryStatus, WebhookEvent, WorkerHealth } from './interfaces';
+
+export const testRunLinksSchema = {
+  $id: 'testRunLinks',
+  type: 'object',
+  required: ['self', 'status'],
+  properties: {
+    self: { type: 'string' },
+    status: { type: 'string' },
+    results: { type: 'string' },
+    summary: { type: 'string' },
+    log: { type: 'string' },
+    test: { type: 'string' },
+    comparison: { type: 'string' },
+    diff: { type: 'string' },
+    origin: { type: 'string' },
+    hooks: { type: 'string' },
+  },
+};
+
+export const thresholdViolationSchema = {
+  $id: 'thresholdViolation',
+  type: 'object',
+  required: ['threshold', 'message'],
+  properties: {
+    threshold: { type: 'string' },
+    actual: { type: 'number' },
+    message: { type: 'string' },
+  },
+};
+
+export const testPlanDescriptorSchema = {
+  $id: 'testPlanDescriptor',
+  type: 'object',
+  required: ['name', 'threadGroups', 'samplers', 'variables', 'labels', 'thresholds'],
+  properties: {
+    name: { type: 'string' },
+    threadGroups: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'type', 'enabled'],
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string' },
+          enabled: { type: 'boolean' },
+          threads: { type: 'string' },
+          rampUp: { type: 'string' },
+          duration: { type: 'string' },
+          loops: { type: 'string' },
+        },
+      },
+    },
+    samplers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'type', 'enabled'],
+        properties: {
+          name: { type: 'string' },
+          type: { type: 'string' },
+          enabled: { type: 'boolean' },
+          threadGroup: { type: 'string' },
+        },
+      },
+    },
+    variables: { type: 'object', additionalProperties: { type: 'string' } },
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+    thresholds: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+export const hookResultSchema = {
+  $id: 'hookResult',
+  type: 'object',
+  required: ['name', 'phase', 'timestamp', 'duration', 'success'],
+  properties: {
+    name: { type: 'string' },
+    phase: { type: 'string', enum: Object.values(HookPhase) },
+    timestamp: { type: 'string', format: 'date-time' },
+    duration: { type: 'number' },
+    success: { type: 'boolean' },
+    error: { type: 'string' },
+  },
+};
+
+export const testRunSchema = {
+  $id: 'testRun',
+  type: 'object',
+  required: ['id', 'name', 'timestamp', 'status', 'links'],
+  properties: {
+    id: { type: 'string' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    schedule: { type: 'string' },
+    name: { type: 'string' },
+    timestamp: { type: 'string', format: 'date-time' },
+    status: { type: 'string', enum: Object.values(TestRunStatus) },
+    code: { type: 'integer', nullable: true },
+    duration: { type: 'number', nullable: true },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+    verdict: { type: 'string', enum: Object.values(TestRunVerdict) },
+    violations: { type: 'array', items: { $ref: 'thresholdViolation#' } },
+    baseline: { type: 'string' },
+    regression: { type: 'boolean' },
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+    pinned: { type: 'boolean' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer' },
+    graceful: { type: 'boolean' },
+    hooks: { type: 'array', items: { $ref: 'hookResult#' } },
+    origin: { type: 'string' },
+    descriptor: { $ref: 'testPlanDescriptor#' },
+    position: { type: 'integer' },
+    estimatedStart: { type: 'string', format: 'date-time' },
+    links: { $ref: 'testRunLinks#' },
+  },
+};
+
+export const testRunsSchema = {
+  $id: 'testRuns',
+  type: 'object',
+  required: ['status', 'queued', 'running', 'completed'],
+  properties: {
+    status: { type: 'string', enum: Object.values(ControllerStatus) },
+    queued: { type: 'array', items: { $ref: 'testRun#' } },
+    running: { type: 'array', items: { $ref: 'testRun#' } },
+    completed: { type: 'array', items: { $ref: 'testRun#' } },
+  },
+};
+
+export const controllerStatusSchema = {
+  $id: 'controllerStatus',
+  type: 'object',
+  required: ['status', 'queued', 'running', 'maxRunning'],
+  properties: {
+    status: { type: 'string', enum: Object.values(ControllerStatus) },
+    queued: { type: 'integer' },
+    running: { type: 'integer' },
+    maxRunning: { type: 'integer' },
+  },
+};
+
+export const labelStatisticsSchema = {
+  $id: 'labelStatistics',
+  type: 'object',
+  required: ['label', 'samples', 'errors', 'errorRate', 'min', 'max', 'mean', 'p50', 'p90', 'p95', 'p99', 'throughput'],
+  properties: {
+    label: { type: 'string' },
+    samples: { type: 'integer' },
+    errors: { type: 'integer' },
+    errorRate: { type: 'number' },
+    min: { type: 'number' },
+    max: { type: 'number' },
+    mean: { type: 'number' },
+    p50: { type: 'number' },
+    p90: { type: 'number' },
+    p95: { type: 'number' },
+    p99: { type: 'number' },
+    throughput: { type: 'number' },
+  },
+};
+
+export const testRunSummarySchema = {
+  $id: 'testRunSummary',
+  type: 'object',
+  required: ['id', 'name', 'total', 'labels'],
+  properties: {
+    id: { type: 'string' },
+    category: { type: 'string' },
+    name: { type: 'string' },
+    start: { type: 'string', format: 'date-time' },
+    end: { type: 'string', format: 'date-time' },
+    total: { $ref: 'labelStatistics#' },
+    labels: { type: 'array', items: { $ref: 'labelStatistics#' } },
+  },
+};
+
+export const testRunHistorySchema = {
+  $id: 'testRunHistory',
+  type: 'object',
+  required: ['name', 'labels', 'runs'],
+  properties: {
+    category: { type: 'string' },
+    name: { type: 'string' },
+    labels: { type: 'object', additionalProperties: { type: 'string' } },
+    runs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'timestamp', 'labels'],
+        properties: {
+          id: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time' },
+          duration: { type: 'number' },
+          p95: { type: 'number' },
+          errorRate: { type: 'number' },
+          throughput: { type: 'number' },
+          verdict: { type: 'string', enum: Object.values(TestRunVerdict) },
+          regression: { type: 'boolean' },
+          labels: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+      },
+    },
+  },
+};
+
+export const baselineSchema = {
+  $id: 'baseline',
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'string' },
+    category: { type: 'string' },
+    name: { type: 'string' },
+  },
+};
+
+export const baselineToleranceSchema = {
+  $id: 'baselineTolerance',
+  type: 'object',
+  required: ['latency', 'errorRate', 'throughput'],
+  properties: {
+    latency: { type: 'number' },
+    errorRate: { type: 'number' },
+    throughput: { type: 'number' },
+  },
+};
+
+export const labelComparisonSchema = {
+  $id: 'labelComparison',
+  type: 'object',
+  required: ['label', 'metrics', 'regression'],
+  properties: {
+    label: { type: 'string' },
+    missing: { type: 'string', enum: ['baseline', 'current'] },
+    metrics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['metric', 'baseline', 'current', 'delta', 'regression'],
+        properties: {
+          metric: { type: 'string' },
+          baseline: { type: 'number' },
+          current: { type: 'number' },
+          delta: { type: 'number' },
+          change: { type: 'number' },
+          regression: { type: 'boolean' },
+        },
+      },
+    },
+    regression: { type: 'boolean' },
+  },
+};
+
+export const testRunComparisonSchema = {
+  $id: 'testRunComparison',
+  type: 'object',
+  required: ['id', 'baseline', 'name', 'tolerance', 'regression', 'total', 'labels'],
+  properties: {
+    id: { type: 'string' },
+    baseline: { type: 'string' },
+    category: { type: 'string' },
+    name: { type: 'string' },
+    tolerance: { $ref: 'baselineTolerance#' },
+    regression: { type: 'boolean' },
+    total: { $ref: 'labelComparison#' },
+    labels: { type: 'array', items: { $ref: 'labelComparison#' } },
+  },
+};
+
+export const testScheduleSchema = {
+  $id: 'testSchedule',
+  type: 'object',
+  required: ['id', 'name', 'cron', 'enabled', 'created'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    cron: { type: 'string' },
+    timezone: { type: 'string' },
+    enabled: { type: 'boolean' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer' },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+    created: { type: 'string', format: 'date-time' },
+    lastRun: { type: 'string', format: 'date-time' },
+    lastRunId: { type: 'string' },
+    nextRun: { type: 'string', format: 'date-time' },
+  },
+};
+
+export const webhookDeliverySchema = {
+  $id: 'webhookDelivery',
+  type: 'object',
+  required: ['id', 'url', 'event', 'timestamp', 'attempts', 'status'],
+  properties: {
+    id: { type: 'string' },
+    url: { type: 'string' },
+    event: { type: 'string', enum: Object.values(WebhookEvent) },
+    timestamp: { type: 'string', format: 'date-time' },
+    attempts: { type: 'integer' },
+    status: { type: 'string', enum: Object.values(WebhookDeliveryStatus) },
+    statusCode: { type: 'integer' },
+    error: { type: 'string' },
+  },
+};
+
+export const auditEntrySchema = {
+  $id: 'auditEntry',
+  type: 'object',
+  required: ['timestamp', 'actor', 'action', 'ip'],
+  properties: {
+    timestamp: { type: 'string', format: 'date-time' },
+    actor: { type: 'string' },
+    action: { type: 'string' },
+    target: { type: 'string' },
+    ip: { type: 'string' },
+  },
+};
+
+export const retentionReportSchema = {
+  $id: 'retentionReport',
+  type: 'object',
+  required: ['dryRun', 'policy', 'usage', 'freed', 'runs'],
+  properties: {
+    dryRun: { type: 'boolean' },
+    policy: {
+      type: 'object',
+      properties: {
+        keepRuns: { type: 'integer' },
+        maxAgeInDays: { type: 'number' },
+        maxDiskUsage: { type: 'integer' },
+        sweepIntervalInMinutes: { type: 'number' },
+      },
+    },
+    usage: { type: 'integer' },
+    freed: { type: 'integer' },
+    runs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'timestamp', 'size', 'reason'],
+        properties: {
+          id: { type: 'string' },
+          category: { type: 'string' },
+          name: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time' },
+          size: { type: 'integer' },
+          reason: { type: 'string', enum: Object.values(RetentionReason) },
+        },
+      },
+    },
+  },
+};
+
+export const bulkOperationReportSchema = {
+  $id: 'bulkOperationReport',
+  type: 'object',
+  required: ['action', 'confirmed', 'filter', 'runs'],
+  properties: {
+    action: { type: 'string', enum: Object.values(BulkAction) },
+    confirmed: { type: 'boolean' },
+    filter: {
+      type: 'object',
+      properties: {
+        category: { type: 'string' },
+        name: { type: 'string' },
+        status: { type: 'array', items: { type: 'string', enum: Object.values(TestRunStatus) } },
+        failed: { type: 'boolean' },
+        before: { type: 'string' },
+        after: { type: 'string' },
+      },
+    },
+    runs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'timestamp', 'status'],
+        properties: {
+          id: { type: 'string' },
+          category: { type: 'string' },
+          name: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: Object.values(TestRunStatus) },
+          requeued: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+export const jmeterWorkerSchema = {
+  $id: 'jmeterWorker',
+  type: 'object',
+  required: ['name', 'host', 'port', 'health'],
+  properties: {
+    name: { type: 'string' },
+    host: { type: 'string' },
+    port: { type: 'integer' },
+    health: { type: 'string', enum: Object.values(WorkerHealth) },
+    lastCheck: { type: 'string', format: 'date-time' },
+    error: { type: 'string' },
+    testRun: { type: 'string' },
+  },
+};
+
+export const errorSchema = {
+  $id: 'error',
+  type: 'object',
+  required: ['message'],
+  properties: {
+    message: { type: 'string' },
+  },
+};
+
+export const apiSchemas = [testRunLinksSchema, thresholdViolationSchema, testPlanDescriptorSchema, hookResultSchema, testRunSchema, testRunsSchema, controllerStatusSchema, labelStatisticsSchema, testRunSummarySchema, testRunHistorySchema, baselineSchema, baselineToleranceSchema, labelComparisonSchema, testRunComparisonSchema, testScheduleSchema, webhookDeliverySchema, auditEntrySchema, retentionReportSchema, bulkOperationReportSchema, jmeterWorkerSchema, errorSchema];
@@ -1,13 +1,20 @@
-import fastify from 'fastify'
-import fastifyStatic from '@fastify/static';
+import fastify, { FastifyReply, FastifyRequest } from 'fastify'
+import fastifyMultipart from '@fastify/multipart';
 import minimist from 'minimist'
 import fs from 'node:fs';
+import path from 'node:path';
 import { Registry, collectDefaultMetrics } from 'prom-client';
 
 import { Controller } from './controller';
-import { AuthKeys, ControllerConfig, TestRunStatus } from './interfaces';
+import { ApiToken, AuditEntry, AuthKeys, BaselineTolerance, BulkAction, CancelMode, TestRunFilter, RetentionPolicy, Webhook, BundleFile, BundleLimits, ControllerConfig, Hook, JMeterWorker, Properties, S3StorageOptions, StorageType, TestBundle, TestRunOptions, TestRunRequest, TestRunStatus, TestRunStreamEvent, TestScheduleOptions, TestScheduleRequest, TokenScope } from './interfaces';
+import { apiSchemas } from './schemas';
+import { BadRequestError, ConflictError, NotFoundError } from './errors';
+import { Authenticator, anonymous } from './auth';
+import { AuditLog } from './audit';
+import { createBundle, extractArchive, safeEntryName, tarContentTypes, zipContentTypes } from './bundle';
 
 const megabyte = 1048576;
+const auditLogName = 'audit.log';
 const server = fastify({ bodyLimit: 10 * megabyte });
 
 const register = new Registry();
@@ -36,8 +43,70 @@ const apiKeyRunTest = args['run-test-api-key'] || '';
 const apiKeyCheckTest = args['check-test-api-key'] || '';
 const apiKeyDeleteTest = args['delete-test-api-key'] || '';
 const refreshTimeInSeconds = args['refresh-time'] || 30;
+const maxRunning = Number.parseInt(args['max-running']) || 1;
 const labels: string = args['custom-labels'] || undefined;
 const customLabels = labels?.split(' ') || [];
+const maxBundleSize = (args['max-bundle-size'] || 50) * megabyte;
+const publicUrl: string = (args['public-url'] || '').replace(/\/$/, '');
+const retries = Number.parseInt(args['webhook-retries']);
+const webhookRetries = Number.isNaN(retries) ? 3 : retries;
+const webhooksFile: string = args['webhooks'] || '';
+const webhooks: Webhook[] = webhooksFile ? JSON.parse(fs.readFileSync(webhooksFile, { encoding: 'utf8' })) : [];
+if (webhooks.length) {
+  console.info(`Notifying ${webhooks.length} webhook(s) configured in: `, webhooksFile);
+}
+const percentage = (value: any, defaultValue: number) => {
+  const number = Number.parseFloat(value);
+  return (Number.isNaN(number) ? defaultValue : number) / 100;
+};
+const tolerance: BaselineTolerance = {
+  latency: percentage(args['latency-tolerance'], 10),
+  errorRate: percentage(args['error-rate-tolerance'], 1),
+  throughput: percentage(args['throughput-tolerance'], 10),
+};
+const liveWindowInSeconds = Number.parseInt(args['live-window']) || 60;
+const retention: RetentionPolicy = {
+  keepRuns: Number.parseInt(args['keep-runs']) || 0,
+  maxAgeInDays: Number.parseFloat(args['max-age']) || 0,
+  maxDiskUsage: (Number.parseFloat(args['max-disk-usage']) || 0) * megabyte,
+  sweepIntervalInMinutes: Number.parseFloat(args['sweep-interval']) || 60,
+};
+const workersFile: string = args['workers'] || '';
+const workers: JMeterWorker[] = workersFile ? JSON.parse(fs.readFileSync(workersFile, { encoding: 'utf8' })) : [];
+if (workers.length) {
+  console.info(`Registering ${workers.length} worker(s) configured in: `, workersFile);
+}
+const healthInterval = Number.parseInt(args['worker-health-interval']);
+const workerHealthIntervalInSeconds = Number.isNaN(healthInterval) ? 30 : healthInterval;
+const workerRmiSsl: boolean = (/true/i).test(args['worker-rmi-ssl']);
+const maxDurationInSeconds = Number.parseInt(args['max-duration']) || 0;
+const gracePeriod = Number.parseInt(args['timeout-grace-period']);
+const timeoutGracePeriodInSeconds = Number.isNaN(gracePeriod) ? 60 : gracePeriod;
+const pauseOnTimeout: boolean = !(/false/i).test(args['pause-on-timeout']);
+const shutdownPort = Number.parseInt(args['shutdown-port']) || 4445;
+const cancelMode: CancelMode = args['cancel-mode'] === CancelMode.graceful ? CancelMode.graceful : CancelMode.hard;
+const resumeUrl: string = args['resume-url'] || '';
+const resumeScript: string = args['resume-script'] || '';
+const resumeIntervalInSeconds = Number.parseInt(args['resume-interval']) || 30;
+const hooksFile: string = args['hooks'] || '';
+const hooks: Hook[] = hooksFile ? JSON.parse(fs.readFileSync(hooksFile, { encoding: 'utf8' })) : [];
+if (hooks.length) {
+  console.info(`Running ${hooks.length} setup and teardown hook(s) configured in: `, hooksFile);
+}
+const storage: StorageType = args['storage'] === StorageType.s3 ? StorageType.s3 : StorageType.local;
+const s3: S3StorageOptions = {
+  endpoint: args['s3-endpoint'] || '',
+  region: args['s3-region'] || 'us-east-1',
+  bucket: args['s3-bucket'] || '',
+  prefix: args['s3-prefix'] || '',
+  accessKey: args['s3-access-key'] || process.env['AWS_ACCESS_KEY_ID'] || '',
+  secretKey: args['s3-secret-key'] || process.env['AWS_SECRET_ACCESS_KEY'] || '',
+  timeoutInSeconds: Number.parseInt(args['s3-timeout']) || 60,
+};
+if (storage === StorageType.s3) {
+  console.info(`Storing test results in S3 bucket '${s3.bucket}' at: `, s3.endpoint || `(AWS region ${s3.region})`);
+}
+const bundleLimits: BundleLimits = { maxExtractedSize: (args['max-extracted-size'] || 250) * megabyte };
 
 const cwd = fs.realpathSync('.');
 console.info("Current working directory: ", cwd);
@@ -57,16 +126,54 @@ if (!fs.existsSync(tempFolder)) {
 console.info("Storing temporary data (during test run) in: ", tempFolder);
 
 const authKeys: AuthKeys = { runTest: apiKeyRunTest, checkTest: apiKeyCheckTest, deleteTest: apiKeyDeleteTest };
-const controller = new Controller({ cwd, testFolder, tempFolder, refreshTimeInSeconds, silent, register, customLabels, keys:authKeys } as ControllerConfig);
+const tokensFile: string = args['tokens'] || '';
+const tokens: ApiToken[] = tokensFile ? JSON.parse(fs.readFileSync(tokensFile, { encoding: 'utf8' })) : [];
+if (tokens.length) {
+  console.info(`Using ${tokens.length} API token(s) configured in: `, tokensFile);
+}
+const sessionTimeoutInSeconds = Number.parseInt(args['session-timeout']) || 28800;
+const authenticator = new Authenticator(tokens, authKeys, sessionTimeoutInSeconds);
+const auditLog = new AuditLog(path.join(testFolder, auditLogName), silent);
+const controller = new Controller({ cwd, testFolder, tempFolder, refreshTimeInSeconds, maxRunning, silent, register, customLabels, publicUrl, webhooks, webhookRetries, tolerance, liveWindowInSeconds, retention, workers, workerHealthIntervalInSeconds, workerRmiSsl, maxDurationInSeconds, timeoutGracePeriodInSeconds, pauseOnTimeout, shutdownPort, cancelMode, resumeUrl, resumeScript, resumeIntervalInSeconds, hooks, storage, s3 } as ControllerConfig);
 
-function checkApiKey(request: any, apiKey: string): boolean {
-  return !apiKey || request.headers['x-api-key'] === apiKey;
+function audit(request: FastifyRequest, action: string, target?: string) {
+  const entry: AuditEntry = { timestamp: new Date().toISOString(), actor: authenticator.identityOf(request)?.name || anonymous, action: action, ip: request.ip };
+  if (target) entry.target = target;
+  auditLog.record(entry);
 }
 
-server.register(fastifyStatic, {
-  root: testFolder,
-  prefix: '/test'
-});
+async function readTestBundle(request: FastifyRequest): Promise<TestBundle | undefined> {
+  if (request.isMultipart()) {
+    const files: BundleFile[] = [];
+    for await (const part of request.files()) {
+      const content = await part.toBuffer();
+      const extracted = await extractArchive(part.filename, content, bundleLimits);
+      files.push(...(extracted || [{ name: safeEntryName(part.filename), content: content }]));
+    }
+    return createBundle(files);
+  }
+
+  const contentType = request.headers['content-type']?.split(';')[0]?.trim() || '';
+  if (zipContentTypes.includes(contentType)) {
+    return createBundle(await extractArchive('bundle.zip', request.body as Buffer, bundleLimits) || []);
+  }
+  if (tarContentTypes.includes(contentType)) {
+    return createBundle(await extractArchive('bundle.tar.gz', request.body as Buffer, bundleLimits) || []);
+  }
+
+  return undefined;
+}
+
+function parseProperties(values: string[] | undefined): Properties {
+  return (values || []).reduce<Properties>((a, x) => {
+    const index = x.indexOf('=');
+    if (index < 0) {
+      throw new BadRequestError(`Invalid property '${x}', expected '<name>=<value>'`);
+    }
+    a[x.substring(0, index)] = x.substring(index + 1);
+    return a;
+  }, {});
+}
 
 server.addHook('onReady', async () => controller.initialize());
 
@@ -85,13 +192,23 @@ server.addContentTypeParser(['application/xml'], { parseAs: 'string' }, function
   done(null, body);
 })
 
+server.addContentTypeParser([...zipContentTypes, ...tarContentTypes], { parseAs: 'buffer', bodyLimit: maxBundleSize }, function (_, body, done) {
+  done(null, body);
+})
+
+server.register(fastifyMultipart, { limits: { fileSize: maxBundleSize } });
+
+apiSchemas.forEach(schema => server.addSchema(schema));
+
 server.post('/status/resume', (request, reply) => {
-  if (!checkApiKey(request, apiKeyRunTest)) {
-    return reply.status(401);
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
   }
 
   try  {
-    return reply.send(controller.resume());
+    const response = controller.resume();
+    audit(request, 'runner.resumed');
+    return reply.send(response);
   } catch (error: any) {
     console.error('[ERROR] ', error);
     return reply.status(500);
@@ -101,30 +218,153 @@ server.post('/status/resume', (request, reply) => {
 server.addSchema({
   $id: 'postTest',
   type: 'object',
-  properties: { category: { type: 'string' } }
+  properties: {
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    worker: { type: 'array', items: { type: 'string' } },
+    'max-duration': { type: 'integer', minimum: 1 },
+    threshold: { type: 'array', items: { type: 'string' } },
+    property: { type: 'array', items: { type: 'string' } },
+    'global-property': { type: 'array', items: { type: 'string' } },
+  }
 });
 
-server.post('/test', { schema: { querystring: { $ref: 'postTest#' } } }, async (request, reply) => {
-  if (!checkApiKey(request, apiKeyRunTest)) {
-    return reply.status(401);
+server.addSchema({
+  $id: 'postTestEnvelope',
+  type: 'object',
+  required: ['test'],
+  properties: {
+    test: { type: 'string' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer', minimum: 1 },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+  }
+});
+
+const postTestSchema = {
+  querystring: { $ref: 'postTest#' },
+  body: { content: { 'application/json': { schema: { $ref: 'postTestEnvelope#' } } } },
+};
+
+type TestRunParameters = { category?: string, lane?: string, priority?: number, worker?: string[], 'max-duration'?: number, threshold?: string[], property?: string[], 'global-property'?: string[] };
+
+async function readTestRunRequest<T extends TestRunRequest>(request: FastifyRequest) {
+  const parameters = request.query as TestRunParameters;
+  const bundle = await readTestBundle(request);
+  const envelope = (bundle
+    ? { test: bundle.test }
+    : (typeof request.body === 'string' ? { test: request.body } : request.body)) as T;
+  const options: TestRunOptions = {
+    category: parameters.category || envelope.category,
+    lane: parameters.lane || envelope.lane,
+    priority: parameters.priority ?? envelope.priority,
+    workers: [...(envelope.workers || []), ...(parameters.worker || [])],
+    maxDuration: parameters['max-duration'] ?? envelope.maxDuration,
+    thresholds: [...(envelope.thresholds || []), ...(parameters.threshold || [])],
+    properties: { ...envelope.properties, ...parseProperties(parameters.property) },
+    globalProperties: { ...envelope.globalProperties, ...parseProperties(parameters['global-property']) },
+  };
+  return { envelope, options, files: bundle?.files };
+}
+
+function readTestRunOverrides(request: FastifyRequest): TestRunOptions {
+  const parameters = request.query as TestRunParameters;
+  const envelope = (request.body && typeof request.body === 'object' ? request.body : {}) as TestRunOptions;
+  return {
+    category: parameters.category || envelope.category,
+    lane: parameters.lane || envelope.lane,
+    priority: parameters.priority ?? envelope.priority,
+    workers: [...(envelope.workers || []), ...(parameters.worker || [])],
+    maxDuration: parameters['max-duration'] ?? envelope.maxDuration,
+    thresholds: [...(envelope.thresholds || []), ...(parameters.threshold || [])],
+    properties: { ...envelope.properties, ...parseProperties(parameters.property) },
+    globalProperties: { ...envelope.globalProperties, ...parseProperties(parameters['global-property']) },
+  };
+}
+
+function sendRequestError(reply: FastifyReply, error: any) {
+  if (error instanceof BadRequestError) {
+    return reply.status(400).header('content-type', 'text/plain').send(`${error.message}\n`);
+  }
+  if (error instanceof NotFoundError) {
+    return reply.status(404).header('content-type', 'text/plain').send(`${error.message}\n`);
+  }
+  if (error instanceof ConflictError) {
+    return reply.status(409).header('content-type', 'text/plain').send(`${error.message}\n`);
+  }
+  if (error.statusCode === 413) {
+    return reply.status(413).header('content-type', 'text/plain').send(`${error.message}\n`);
+  }
+  console.error('[ERROR] ', error);
+  return reply.status(500);
+}
+
+server.post('/test', { schema: postTestSchema }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
   }
 
   try {
-    const parameters = request.query as { category?: string };
-    const body = request.body as string;
-    const response = await controller.scheduleTestRun(body, parameters.category);
+    const { envelope, options, files } = await readTestRunRequest(request);
+    const response = await controller.scheduleTestRun(envelope.test, options, files);
+    audit(request, 'test.submitted', response.id);
     return reply.status(201).send(response);
   } catch (error: any) {
-    console.error('[ERROR] ', error);
-    return reply.status(500);
+    return sendRequestError(reply, error);
+  }
+});
+
+server.addSchema({
+  $id: 'rerunTestEnvelope',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer', minimum: 1 },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+  }
+});
+
+const rerunTestSchema = {
+  querystring: { $ref: 'postTest#' },
+  body: { content: { 'application/json': { schema: { $ref: 'rerunTestEnvelope#' } } } },
+};
+
+server.post('/test/:id/rerun', { schema: rerunTestSchema }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  try {
+    const response = await controller.rerunTest(id, readTestRunOverrides(request));
+    if (response) {
+      audit(request, 'test.rerun', response.id);
+    }
+    return response
+      ? reply.status(201).send(response)
+      : reply.status(404).header('content-type', 'text/plain').send(`Test ${id} not found\n`);
+  } catch (error) {
+    return sendRequestError(reply, error);
   }
 });
 
 server.get('/', (_, reply) => reply.redirect('/test'));
 
 server.get('/test', async (request, reply) => {
-  if (!checkApiKey(request, apiKeyCheckTest)) {
-    return reply.status(401);
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
   }
 
   const baseUrl = request.url;
@@ -149,8 +389,8 @@ server.addSchema({
 });
 
 server.get('/test/:id', { schema: { querystring: { $ref: 'getTest#' } } }, async (request, reply) => {
-  if (!checkApiKey(request, apiKeyCheckTest)) {
-    return reply.status(401);
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
   }
 
   const parameters = request.query as { limit?: number };
@@ -163,6 +403,7 @@ server.get('/test/:id', { schema: { querystring: { $ref: 'getTest#' } } }, async
         return reply.header('content-type', 'text/html').send(body);
       }
       case TestRunStatus.cancelled:
+      case TestRunStatus.timedout:
         return reply.redirect(`/test/${id}/jmeter.log`);
       case TestRunStatus.done:
         return reply.redirect(`/test/${id}/results/`);
@@ -174,28 +415,332 @@ server.get('/test/:id', { schema: { querystring: { $ref: 'getTest#' } } }, async
   }
 });
 
+server.get('/test/:id/summary', { schema: { response: { 200: { $ref: 'testRunSummary#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  try {
+    const summary = await controller.getTestRunSummary(id);
+    return summary
+      ? reply.send(summary)
+      : reply.status(404).send({ message: `No summary found for test ${id}` });
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).send({ message: `Cannot retrieve summary for test ${id}` });
+  }
+});
+
+server.get('/test/:id/*', async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id, '*': name } = request.params as { id: string, '*': string };
+  try {
+    const file = await controller.getTestRunFile(id, name);
+    return file
+      ? reply.header('content-type', file.contentType).header('content-length', file.size).send(file.body)
+      : reply.status(404).header('content-type', 'text/plain').send(`File ${name} not found for test ${id}\n`);
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).header('content-type', 'text/plain').send(`Cannot retrieve file ${name} for test ${id}\n`);
+  }
+});
+
+server.addSchema({
+  $id: 'getHistory',
+  type: 'object',
+  required: ['name'],
+  properties: {
+    category: { type: 'string' },
+    name: { type: 'string' },
+    label: { type: 'array', items: { type: 'string' } },
+    limit: { type: 'integer', minimum: 0 },
+  }
+});
+
+function readHistoryRequest(request: FastifyRequest) {
+  const parameters = request.query as { category?: string, name: string, label?: string[], limit?: number };
+  return { category: parameters.category, name: parameters.name, labels: parseProperties(parameters.label), limit: parameters.limit ?? 20 };
+}
+
+server.get('/history', { schema: { querystring: { $ref: 'getHistory#' } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  try {
+    const { category, name, labels, limit } = readHistoryRequest(request);
+    const body = await controller.getTestRunHistoryView(category, name, labels, limit, '/test');
+    return reply.header('content-type', 'text/html').send(body);
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.get('/api/history', { schema: { querystring: { $ref: 'getHistory#' }, response: { 200: { $ref: 'testRunHistory#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  try {
+    const { category, name, labels, limit } = readHistoryRequest(request);
+    return reply.send(await controller.getTestRunHistory(category, name, labels, limit));
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.get('/baseline', { schema: { response: { 200: { type: 'array', items: { $ref: 'baseline#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.getBaselines());
+});
+
+server.put('/test/:id/baseline', { schema: { response: { 200: { $ref: 'baseline#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  try {
+    const baseline = await controller.setBaseline(id);
+    if (baseline) {
+      audit(request, 'baseline.set', id);
+    }
+    return baseline
+      ? reply.send(baseline)
+      : reply.status(404).send({ message: `Test ${id} not found` });
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.delete('/test/:id/baseline', async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const cleared = controller.clearBaseline(id);
+  if (cleared) {
+    audit(request, 'baseline.cleared', id);
+  }
+  return cleared
+    ? reply.status(204).send()
+    : reply.status(404).header('content-type', 'text/plain').send(`Test ${id} is not a baseline\n`);
+});
+
+server.put('/test/:id/pin', { schema: { response: { 200: { $ref: 'testRun#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const run = controller.pinTest(id, true, '/test');
+  if (run) {
+    audit(request, 'test.pinned', id);
+  }
+  return run
+    ? reply.send(run)
+    : reply.status(404).send({ message: `Test ${id} not found` });
+});
+
+server.delete('/test/:id/pin', { schema: { response: { 200: { $ref: 'testRun#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const run = controller.pinTest(id, false, '/test');
+  if (run) {
+    audit(request, 'test.unpinned', id);
+  }
+  return run
+    ? reply.send(run)
+    : reply.status(404).send({ message: `Test ${id} not found` });
+});
+
+server.get('/retention', { schema: { response: { 200: { $ref: 'retentionReport#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(await controller.applyRetention(true));
+});
+
+server.post('/retention/sweep', { schema: { response: { 200: { $ref: 'retentionReport#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
+  }
+
+  const report = await controller.applyRetention(false);
+  audit(request, 'retention.swept', report.runs.map(x => x.id).join(','));
+  return reply.send(report);
+});
+
+server.addSchema({
+  $id: 'compareTest',
+  type: 'object',
+  properties: {
+    baseline: { type: 'string' },
+    'latency-tolerance': { type: 'number', minimum: 0 },
+    'error-rate-tolerance': { type: 'number', minimum: 0 },
+    'throughput-tolerance': { type: 'number', minimum: 0 },
+  }
+});
+
+const toleranceParameters: { [x in keyof BaselineTolerance]: string } = { latency: 'latency-tolerance', errorRate: 'error-rate-tolerance', throughput: 'throughput-tolerance' };
+
+function readComparisonRequest(request: FastifyRequest) {
+  const parameters = request.query as { [key: string]: string | number | undefined };
+  const tolerance: Partial<BaselineTolerance> = {};
+  (Object.keys(toleranceParameters) as (keyof BaselineTolerance)[])
+    .filter(x => parameters[toleranceParameters[x]] !== undefined)
+    .forEach(x => tolerance[x] = Number(parameters[toleranceParameters[x]]) / 100);
+  return { baseline: parameters['baseline'] as string | undefined, tolerance: tolerance };
+}
+
+server.get('/test/:id/comparison', { schema: { querystring: { $ref: 'compareTest#' }, response: { 200: { $ref: 'testRunComparison#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const { baseline, tolerance } = readComparisonRequest(request);
+  try {
+    const comparison = await controller.getTestRunComparison(id, baseline, tolerance);
+    return comparison
+      ? reply.send(comparison)
+      : reply.status(404).send({ message: `No comparison available for test ${id} (no baseline or no summary)` });
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).send({ message: `Cannot compare test ${id}` });
+  }
+});
+
+server.get('/test/:id/diff', { schema: { querystring: { $ref: 'compareTest#' } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const { baseline, tolerance } = readComparisonRequest(request);
+  try {
+    const body = await controller.getTestRunComparisonView(id, baseline, tolerance);
+    return body
+      ? reply.header('content-type', 'text/html').send(body)
+      : reply.status(404).header('content-type', 'text/plain').send(`No comparison available for test ${id} (no baseline or no summary)\n`);
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).header('content-type', 'text/plain').send(`Cannot compare test ${id}\n`);
+  }
+});
+
+server.addSchema({
+  $id: 'streamTest',
+  type: 'object',
+  properties: { tail: { type: 'integer', minimum: 0 } }
+});
+
+const heartbeatIntervalInMilliseconds = 15000;
+
+function sendEvent(reply: FastifyReply, event: TestRunStreamEvent) {
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+  reply.raw.write(`event: ${event.event}\n${data.split(/\r?\n/).map(x => `data: ${x}`).join('\n')}\n\n`);
+}
+
+server.get('/test/:id/stream', { schema: { querystring: { $ref: 'streamTest#' } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const parameters = request.query as { tail?: number };
+  const { id } = request.params as { id: string };
+  const status = controller.testStatus(id);
+  if (!status) {
+    return reply.status(404).header('content-type', 'text/plain').send(`Test ${id} not found\n`);
+  }
+
+  reply.hijack();
+  reply.raw.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', 'connection': 'keep-alive', 'x-accel-buffering': 'no' });
+
+  if (status !== TestRunStatus.queued && status !== TestRunStatus.running) {
+    sendEvent(reply, { event: 'end', data: { status: status } });
+    return reply.raw.end();
+  }
+
+  const pending: TestRunStreamEvent[] = [];
+  let replaying = true;
+  const unsubscribe = controller.subscribe(id, event => {
+    if (replaying) {
+      pending.push(event);
+      return;
+    }
+    sendEvent(reply, event);
+    if (event.event === 'end') {
+      close();
+    }
+  });
+  const heartbeat = setInterval(() => reply.raw.write(': heartbeat\n\n'), heartbeatIntervalInMilliseconds);
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    reply.raw.end();
+  };
+  reply.raw.on('close', close);
+
+  try {
+    const tail = parameters.tail ?? 100;
+    const output = tail ? await controller.getTestRunOutput(id, tail) : '';
+    output.split(/\r?\n/).filter(x => !!x).forEach(x => sendEvent(reply, { event: 'output', data: x }));
+    const progress = controller.getTestRunProgress(id);
+    if (progress) {
+      sendEvent(reply, { event: 'progress', data: progress });
+    }
+  } catch (error) {
+    console.warn(`[WARN] Cannot replay output for test ${id} because: ${error}`);
+  }
+
+  replaying = false;
+  pending.forEach(x => sendEvent(reply, x));
+  if (pending.some(x => x.event === 'end')) {
+    close();
+  }
+  return reply;
+});
+
 server.addSchema({
   $id: 'deleteTest',
   type: 'object',
-  properties: { confirm: { type: 'boolean' } }
+  properties: {
+    confirm: { type: 'boolean' },
+    mode: { type: 'string', enum: Object.values(CancelMode) },
+  }
 });
 
 server.delete('/test', { schema: { querystring: { $ref: 'deleteTest#' } } }, async (request, reply) => {
-  if (!checkApiKey(request, apiKeyDeleteTest)) {
-    return reply.status(401);
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
   }
 
-  const parameters = request.query as { confirm?: boolean };
+  const parameters = request.query as { confirm?: boolean, mode?: CancelMode };
   const cancelOnly = !parameters.confirm;
 
   try {
     const anyTestRunning = controller.runningCount > 0;
     if (anyTestRunning) {
-      controller.cancelAllRunningTests();
+      controller.cancelAllRunningTests(cancelOnly ? parameters.mode : CancelMode.hard);
+      audit(request, 'tests.cancelled');
     }
 
     if (!cancelOnly) {
-      controller.deleteAllTests();
+      await controller.deleteAllTests();
+      audit(request, 'tests.deleted');
       return reply.header('content-type', 'text/plain').send('All tests deleted\n');
     }
 
@@ -208,26 +753,78 @@ server.delete('/test', { schema: { querystring: { $ref: 'deleteTest#' } } }, asy
   }
 });
 
+server.addSchema({
+  $id: 'bulkOperation',
+  type: 'object',
+  properties: {
+    category: { type: 'string' },
+    name: { type: 'string' },
+    status: { type: 'array', items: { type: 'string', enum: Object.values(TestRunStatus) } },
+    failed: { type: 'boolean' },
+    before: { type: 'string' },
+    after: { type: 'string' },
+    confirm: { type: 'boolean' },
+  },
+});
+
+const bulkActionScope: { [x in BulkAction]: TokenScope } = {
+  [BulkAction.cancel]: TokenScope.delete,
+  [BulkAction.delete]: TokenScope.delete,
+  [BulkAction.requeue]: TokenScope.run,
+};
+const bulkActionAudit: { [x in BulkAction]: string } = {
+  [BulkAction.cancel]: 'tests.cancelled',
+  [BulkAction.delete]: 'tests.deleted',
+  [BulkAction.requeue]: 'tests.requeued',
+};
+
+server.post('/bulk/:action', { schema: { querystring: { $ref: 'bulkOperation#' }, response: { 200: { $ref: 'bulkOperationReport#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  const { action } = request.params as { action: BulkAction };
+  if (!Object.values(BulkAction).includes(action)) {
+    return reply.status(404).send({ message: `Unknown bulk action '${action}' (expected one of: ${Object.values(BulkAction).join(', ')})` });
+  }
+
+  if (!authenticator.authorize(request, reply, bulkActionScope[action])) {
+    return reply;
+  }
+
+  const { confirm, ...filter } = request.query as TestRunFilter & { confirm?: boolean };
+  try {
+    const report = await controller.applyBulkAction(action, filter, !!confirm);
+    if (report.confirmed && report.runs.length) {
+      audit(request, bulkActionAudit[action], report.runs.map(x => x.id).join(','));
+    }
+    return reply.send(report);
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
 
 server.delete('/test/:id', { schema: { querystring: { $ref: 'deleteTest#' } } }, async (request, reply) => {
-  if (!checkApiKey(request, apiKeyDeleteTest)) {
-    return reply.status(401);
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
   }
 
   const { id } = request.params as { id: string };
-  const parameters = request.query as { confirm?: boolean };
+  const parameters = request.query as { confirm?: boolean, mode?: CancelMode };
   const cancelOnly = !parameters.confirm;
 
   try {
+    let mode: CancelMode | undefined;
     if (controller.testRunning(id)) {
-      controller.cancelTest(id);
+      mode = controller.cancelTest(id, cancelOnly ? parameters.mode : CancelMode.hard);
+      audit(request, 'test.cancelled', id);
     }
 
     if (cancelOnly) {
-      return reply.header('content-type', 'text/plain').send(`Test ${id} cancelled\n`);
+      return reply.header('content-type', 'text/plain').send(mode === CancelMode.graceful ? `Test ${id} is stopping\n` : `Test ${id} cancelled\n`);
     }
 
-    return controller.deleteTest(id)
+    const deleted = await controller.deleteTest(id);
+    if (deleted) {
+      audit(request, 'test.deleted', id);
+    }
+    return deleted
       ? reply.header('content-type', 'text/plain').send(`Test ${id} deleted\n`)
       : reply.status(404).header('content-type', 'text/plain').send(`Test ${id} not found\n`);
 
@@ -236,6 +833,327 @@ server.delete('/test/:id', { schema: { querystring: { $ref: 'deleteTest#' } } },
   }
 });
 
+server.get('/queue', { schema: { response: { 200: { type: 'array', items: { $ref: 'testRun#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.getQueue('/test'));
+});
+
+server.post('/queue/:id/bump', { schema: { response: { 200: { $ref: 'testRun#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const run = controller.bumpTest(id, '/test');
+  if (run) {
+    audit(request, 'queue.bumped', id);
+  }
+  return run
+    ? reply.send(run)
+    : reply.status(404).send({ message: `Test ${id} is not queued` });
+});
+
+server.delete('/queue/:id', async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const removed = await controller.removeQueuedTest(id);
+  if (removed) {
+    audit(request, 'queue.removed', id);
+  }
+  return removed
+    ? reply.status(204).send()
+    : reply.status(404).header('content-type', 'text/plain').send(`Test ${id} is not queued\n`);
+});
+
+server.get('/worker', { schema: { response: { 200: { type: 'array', items: { $ref: 'jmeterWorker#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.getWorkers());
+});
+
+server.addSchema({
+  $id: 'postWorker',
+  type: 'object',
+  required: ['name', 'host'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string' },
+    host: { type: 'string' },
+    port: { type: 'integer' },
+  }
+});
+
+server.post('/worker', { schema: { body: { $ref: 'postWorker#' }, response: { 201: { $ref: 'jmeterWorker#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  try {
+    const worker = await controller.registerWorker(request.body as JMeterWorker);
+    audit(request, 'worker.registered', worker.name);
+    return reply.status(201).send(worker);
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.delete('/worker/:name', async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
+  }
+
+  const { name } = request.params as { name: string };
+  try {
+    const removed = await controller.unregisterWorker(name);
+    if (removed) {
+      audit(request, 'worker.unregistered', name);
+    }
+    return removed
+      ? reply.status(204).send()
+      : reply.status(404).header('content-type', 'text/plain').send(`Worker ${name} not found\n`);
+  } catch (error) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.get('/api/status', { schema: { response: { 200: { $ref: 'controllerStatus#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.getStatus());
+});
+
+server.get('/api/test', { schema: { response: { 200: { $ref: 'testRuns#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  try {
+    return reply.send(controller.getTestRuns('/test'));
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).send({ message: 'Cannot retrieve test runs' });
+  }
+});
+
+server.get('/api/test/:id', { schema: { response: { 200: { $ref: 'testRun#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const run = controller.getTestRun(id, '/test');
+  return run
+    ? reply.send(run)
+    : reply.status(404).send({ message: `Test ${id} not found` });
+});
+
+server.addSchema({
+  $id: 'postSchedule',
+  type: 'object',
+  properties: {
+    cron: { type: 'string' },
+    timezone: { type: 'string' },
+    enabled: { type: 'boolean' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    worker: { type: 'array', items: { type: 'string' } },
+    'max-duration': { type: 'integer', minimum: 1 },
+    threshold: { type: 'array', items: { type: 'string' } },
+    property: { type: 'array', items: { type: 'string' } },
+    'global-property': { type: 'array', items: { type: 'string' } },
+  }
+});
+
+server.addSchema({
+  $id: 'postScheduleEnvelope',
+  type: 'object',
+  required: ['test'],
+  properties: {
+    test: { type: 'string' },
+    cron: { type: 'string' },
+    timezone: { type: 'string' },
+    enabled: { type: 'boolean' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer', minimum: 1 },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+  }
+});
+
+server.addSchema({
+  $id: 'putSchedule',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    cron: { type: 'string' },
+    timezone: { type: 'string' },
+    enabled: { type: 'boolean' },
+    category: { type: 'string' },
+    lane: { type: 'string' },
+    priority: { type: 'integer' },
+    workers: { type: 'array', items: { type: 'string' } },
+    maxDuration: { type: 'integer', minimum: 1 },
+    thresholds: { type: 'array', items: { type: 'string' } },
+    properties: { type: 'object', additionalProperties: { type: 'string' } },
+    globalProperties: { type: 'object', additionalProperties: { type: 'string' } },
+  }
+});
+
+server.get('/schedule', { schema: { response: { 200: { type: 'array', items: { $ref: 'testSchedule#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.getSchedules());
+});
+
+server.get('/schedule/:id', { schema: { response: { 200: { $ref: 'testSchedule#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  const schedule = controller.getSchedule(id);
+  return schedule
+    ? reply.send(schedule)
+    : reply.status(404).send({ message: `Schedule ${id} not found` });
+});
+
+const postScheduleSchema = {
+  querystring: { $ref: 'postSchedule#' },
+  body: { content: { 'application/json': { schema: { $ref: 'postScheduleEnvelope#' } } } },
+  response: { 201: { $ref: 'testSchedule#' } },
+};
+
+server.post('/schedule', { schema: postScheduleSchema }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  try {
+    const parameters = request.query as TestScheduleOptions;
+    const { envelope, options, files } = await readTestRunRequest<TestScheduleRequest>(request);
+    const schedule = await controller.createSchedule(envelope.test, {
+      ...options,
+      cron: parameters.cron || envelope.cron,
+      timezone: parameters.timezone || envelope.timezone,
+      enabled: parameters.enabled ?? envelope.enabled,
+    }, files);
+    audit(request, 'schedule.created', schedule.id);
+    return reply.status(201).send(schedule);
+  } catch (error: any) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.put('/schedule/:id', { schema: { body: { $ref: 'putSchedule#' }, response: { 200: { $ref: 'testSchedule#' }, 404: { $ref: 'error#' } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.run)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  try {
+    const schedule = await controller.updateSchedule(id, request.body as TestScheduleOptions);
+    if (schedule) {
+      audit(request, 'schedule.updated', id);
+    }
+    return schedule
+      ? reply.send(schedule)
+      : reply.status(404).send({ message: `Schedule ${id} not found` });
+  } catch (error: any) {
+    return sendRequestError(reply, error);
+  }
+});
+
+server.delete('/schedule/:id', async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.delete)) {
+    return reply;
+  }
+
+  const { id } = request.params as { id: string };
+  try {
+    const deleted = await controller.deleteSchedule(id);
+    if (deleted) {
+      audit(request, 'schedule.deleted', id);
+    }
+    return deleted
+      ? reply.header('content-type', 'text/plain').send(`Schedule ${id} deleted\n`)
+      : reply.status(404).header('content-type', 'text/plain').send(`Schedule ${id} not found\n`);
+  } catch (error) {
+    return reply.status(500).header('content-type', 'text/plain').send({ msg: `Cannot delete schedule ${id}\n`, error: error });
+  }
+});
+
+server.addSchema({
+  $id: 'login',
+  type: 'object',
+  required: ['token'],
+  properties: { token: { type: 'string' } }
+});
+
+server.post('/login', { schema: { body: { $ref: 'login#' } } }, async (request, reply) => {
+  const { token } = request.body as { token: string };
+  const session = authenticator.createSession(token);
+  if (!session) {
+    audit(request, 'session.rejected');
+    return reply.status(401).header('content-type', 'text/plain').send('Invalid API token\n');
+  }
+
+  auditLog.record({ timestamp: new Date().toISOString(), actor: session.identity.name, action: 'session.created', ip: request.ip });
+  return reply.header('set-cookie', session.cookie).send(session.identity);
+});
+
+server.post('/logout', async (request, reply) => {
+  const session = authenticator.deleteSession(request);
+  if (session.identity) {
+    auditLog.record({ timestamp: new Date().toISOString(), actor: session.identity.name, action: 'session.deleted', ip: request.ip });
+  }
+  return reply.status(204).header('set-cookie', session.cookie).send();
+});
+
+server.addSchema({
+  $id: 'getAudit',
+  type: 'object',
+  properties: { limit: { type: 'integer', minimum: 0 } }
+});
+
+server.get('/audit', { schema: { querystring: { $ref: 'getAudit#' }, response: { 200: { type: 'array', items: { $ref: 'auditEntry#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.audit)) {
+    return reply;
+  }
+
+  const parameters = request.query as { limit?: number };
+  try {
+    return reply.send(await auditLog.read(parameters.limit ?? 100));
+  } catch (error) {
+    console.error('[ERROR] ', error);
+    return reply.status(500).send({ message: 'Cannot read audit log' });
+  }
+});
+
+server.get('/webhook/deliveries', { schema: { response: { 200: { type: 'array', items: { $ref: 'webhookDelivery#' } } } } }, async (request, reply) => {
+  if (!authenticator.authorize(request, reply, TokenScope.check)) {
+    return reply;
+  }
+
+  return reply.send(controller.webhookDeliveries);
+});
+
 
 async function closeGracefully(signal: any) {
   console.info(`Received signal: `, signal);
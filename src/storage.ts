@@ -0,0 +1,357 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { XMLParser } from 'fast-xml-parser';
+import _ from 'lodash';
+
+import { S3StorageOptions, StorageType } from './interfaces';
+
+export const requestConcurrency = 10;
+const signingAlgorithm = 'AWS4-HMAC-SHA256';
+const unsignedPayload = 'UNSIGNED-PAYLOAD';
+
+const contentTypes: { [key: string]: string } = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.jmx': 'application/xml; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.jtl': 'text/plain; charset=utf-8',
+  '.log': 'text/plain; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.eot': 'application/vnd.ms-fontobject',
+};
+
+export interface StoredFile {
+  name: string;
+  size: number;
+}
+
+export interface StoredContent {
+  body: Readable;
+  size: number;
+  contentType: string;
+}
+
+// note: each test run is stored in its own folder, named after the test run id
+export interface ResultStorage {
+  readonly location: string;
+  list(): Promise<string[]>;
+  files(id: string): Promise<StoredFile[]>;
+  read(id: string, name: string): Promise<Buffer | undefined>;
+  write(id: string, name: string, data: string): Promise<void>;
+  open(id: string, name: string): Promise<StoredContent | undefined>;
+  // note: removes the (local) folder of the test run once stored
+  store(id: string, folder: string): Promise<void>;
+  remove(id: string): Promise<boolean>;
+}
+
+export function contentTypeOf(name: string) {
+  return contentTypes[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+function isSafeName(name: string) {
+  return !!name && name.split('/').every(x => !!x && x !== '.' && x !== '..' && !x.includes('\\'));
+}
+
+async function localFiles(folder: string): Promise<StoredFile[]> {
+  try {
+    const entries = await fsp.readdir(folder, { withFileTypes: true, recursive: true });
+    return await Promise.all(entries.filter(x => x.isFile()).map(async x => {
+      const file = path.join(x.parentPath, x.name);
+      const size = await fsp.stat(file).then(s => s.size, () => 0);
+      return { name: path.relative(folder, file).split(path.sep).join('/'), size: size };
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export class LocalStorage implements ResultStorage {
+  constructor(private _root: string) { }
+
+  public get location() {
+    return this._root;
+  }
+
+  private _path(id: string, name?: string) {
+    if (!isSafeName(id) || id.includes('/') || (name !== undefined && !isSafeName(name))) return undefined;
+    return name === undefined ? path.join(this._root, id) : path.join(this._root, id, ...name.split('/'));
+  }
+
+  private async _file(id: string, name: string) {
+    const file = this._path(id, name);
+    if (!file) return undefined;
+
+    const stats = await fsp.stat(file).catch(() => undefined);
+    return stats?.isFile() ? { file: file, size: stats.size } : undefined;
+  }
+
+  public async list() {
+    return (await fsp.readdir(this._root, { withFileTypes: true })).filter(x => x.isDirectory()).map(x => x.name);
+  }
+
+  public async files(id: string) {
+    const folder = this._path(id);
+    return folder ? localFiles(folder) : [];
+  }
+
+  public async read(id: string, name: string) {
+    const found = await this._file(id, name);
+    return found ? fsp.readFile(found.file) : undefined;
+  }
+
+  public async write(id: string, name: string, data: string) {
+    const file = this._path(id, name);
+    if (!file) throw new Error(`Invalid file name '${name}' for test ${id}`);
+
+    await fsp.mkdir(path.dirname(file), { recursive: true });
+    await fsp.writeFile(file, data, { encoding: 'utf8', flush: true });
+  }
+
+  public async open(id: string, name: string) {
+    const found = await this._file(id, name);
+    return found ? { body: fs.createReadStream(found.file), size: found.size, contentType: contentTypeOf(name) } : undefined;
+  }
+
+  public async store(id: string, folder: string) {
+    const target = this._path(id);
+    if (!target) throw new Error(`Invalid test id '${id}'`);
+
+    try {
+      await fsp.rename(folder, target);
+      return;
+    } catch (error: any) {
+      console.debug(`[DEBUG] Cannot rename ${folder} to ${target} (${error.code}), copying instead`);
+    }
+
+    // note: fs.cp also copies the permissions (using chmod), which is not permitted on some mounted volumes, so we only copy the content
+    for (const file of await localFiles(folder)) {
+      const destination = path.join(target, ...file.name.split('/'));
+      await fsp.mkdir(path.dirname(destination), { recursive: true });
+      await pipeline(fs.createReadStream(path.join(folder, ...file.name.split('/'))), fs.createWriteStream(destination));
+    }
+    await fsp.rm(folder, { recursive: true, force: true });
+  }
+
+  public async remove(id: string) {
+    const folder = this._path(id);
+    if (!folder || !fs.existsSync(folder)) return false;
+
+    await fsp.rm(folder, { recursive: true, force: true });
+    return true;
+  }
+}
+
+function hash(data: string | Buffer) {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string) {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// note: AWS signature version 4 also requires encoding the characters !'()*
+function encode(value: string) {
+  return encodeURIComponent(value).replace(/[!'()*]/g, x => `%${x.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// note: signs the (lowercase) headers besides the host, date and content hash, returning the headers to send
+export function signRequest(method: string, url: URL, headers: { [key: string]: string }, payloadHash: string, options: S3StorageOptions, now: Date = new Date()): { [key: string]: string } {
+  const timestamp = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const date = timestamp.substring(0, 8);
+  const scope = `${date}/${options.region}/s3/aws4_request`;
+
+  const signed: { [key: string]: string } = { ...headers, 'host': url.host, 'x-amz-content-sha256': payloadHash, 'x-amz-date': timestamp };
+  const names = Object.keys(signed).sort();
+  const query = _.sortBy([...url.searchParams.entries()].map(([name, value]) => [encode(name), encode(value)]), x => x[0], x => x[1])
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    query,
+    names.map(x => `${x}:${signed[x]!.trim()}\n`).join(''),
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [signingAlgorithm, timestamp, scope, hash(canonicalRequest)].join('\n');
+  const key = hmac(hmac(hmac(hmac(`AWS4${options.secretKey}`, date), options.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', key).update(stringToSign).digest('hex');
+
+  return {
+    ..._.omit(signed, 'host'),
+    'authorization': `${signingAlgorithm} Credential=${options.accessKey}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+interface S3Request {
+  query?: { [key: string]: string };
+  headers?: { [key: string]: string };
+  body?: Buffer | ReadableStream;
+  payloadHash?: string;
+}
+
+interface ListedObjects {
+  files: StoredFile[];
+  folders: string[];
+}
+
+// note: uses path-style requests, so it also works with S3-compatible object stores like MinIO
+export class S3Storage implements ResultStorage {
+  private _endpoint: URL;
+  private _prefix: string;
+  private _parser = new XMLParser({ parseTagValue: false, isArray: name => ['Contents', 'CommonPrefixes'].includes(name) });
+
+  constructor(private _options: S3StorageOptions) {
+    if (!_options.bucket || !_options.accessKey || !_options.secretKey) {
+      throw new Error('Invalid S3 storage (expected a bucket, an access key and a secret key)');
+    }
+    this._endpoint = new URL(_options.endpoint || `https://s3.${_options.region}.amazonaws.com`);
+    this._prefix = _options.prefix.replace(/^\/+|\/+$/g, '');
+    if (this._prefix) {
+      this._prefix += '/';
+    }
+  }
+
+  public get location() {
+    return `${this._endpoint.origin}/${this._options.bucket}${this._prefix ? `/${this._prefix.replace(/\/$/, '')}` : ''}`;
+  }
+
+  private _key(id: string, name?: string) {
+    if (!isSafeName(id) || id.includes('/') || (name !== undefined && !isSafeName(name))) return undefined;
+    return name === undefined ? `${this._prefix}${id}/` : `${this._prefix}${id}/${name}`;
+  }
+
+  private _url(key: string, query: { [key: string]: string }) {
+    const base = this._endpoint.pathname.replace(/\/+$/, '');
+    const url = new URL(`${base}/${encode(this._options.bucket)}/${key.split('/').map(x => encode(x)).join('/')}`, this._endpoint.origin);
+    url.search = Object.entries(query).map(([name, value]) => `${encode(name)}=${encode(value)}`).join('&');
+    return url;
+  }
+
+  private async _request(method: string, key: string, request: S3Request = {}) {
+    const url = this._url(key, request.query || {});
+    const headers = signRequest(method, url, request.headers || {}, request.payloadHash ?? hash(''), this._options);
+    return fetch(url, {
+      method: method,
+      headers: headers,
+      body: request.body ?? null,
+      duplex: 'half',
+      signal: AbortSignal.timeout(this._options.timeoutInSeconds * 1000),
+    });
+  }
+
+  private async _fail(response: Response, action: string): Promise<never> {
+    const body = await response.text().catch(() => '');
+    const code = body ? this._parser.parse(body)?.Error?.Code : undefined;
+    throw new Error(`S3 ${action} failed with ${response.status} ${response.statusText}${code ? ` (${code})` : ''}`);
+  }
+
+  private async _get(key: string) {
+    const response = await this._request('GET', key);
+    if (response.status === 404) return undefined;
+    return response.ok ? response : this._fail(response, `get of ${key}`);
+  }
+
+  private async _list(prefix: string, delimiter?: string): Promise<ListedObjects> {
+    const listed: ListedObjects = { files: [], folders: [] };
+    let token: string | undefined;
+    do {
+      const query: { [key: string]: string } = { 'list-type': '2', 'prefix': prefix };
+      if (delimiter) query['delimiter'] = delimiter;
+      if (token) query['continuation-token'] = token;
+
+      const response = await this._request('GET', '', { query: query });
+      if (!response.ok) await this._fail(response, `list of ${prefix}`);
+
+      const result = this._parser.parse(await response.text())?.ListBucketResult || {};
+      listed.files.push(...(result.Contents || []).map((x: any) => ({ name: String(x.Key).substring(prefix.length), size: Number(x.Size) || 0 })));
+      listed.folders.push(...(result.CommonPrefixes || []).map((x: any) => String(x.Prefix).substring(prefix.length).replace(/\/$/, '')));
+      token = result.IsTruncated === 'true' ? result.NextContinuationToken : undefined;
+    } while (token);
+    return listed;
+  }
+
+  private async _put(key: string, request: S3Request) {
+    const response = await this._request('PUT', key, request);
+    if (!response.ok) await this._fail(response, `put of ${key}`);
+  }
+
+  public async list() {
+    return (await this._list(this._prefix, '/')).folders.filter(x => !!x);
+  }
+
+  public async files(id: string) {
+    const prefix = this._key(id);
+    return prefix ? (await this._list(prefix)).files : [];
+  }
+
+  public async read(id: string, name: string) {
+    const key = this._key(id, name);
+    const response = key ? await this._get(key) : undefined;
+    return response ? Buffer.from(await response.arrayBuffer()) : undefined;
+  }
+
+  public async write(id: string, name: string, data: string) {
+    const key = this._key(id, name);
+    if (!key) throw new Error(`Invalid file name '${name}' for test ${id}`);
+
+    const body = Buffer.from(data, 'utf8');
+    await this._put(key, { body: body, payloadHash: hash(body), headers: { 'content-type': contentTypeOf(name) } });
+  }
+
+  public async open(id: string, name: string) {
+    const key = this._key(id, name);
+    const response = key ? await this._get(key) : undefined;
+    if (!response?.body) return undefined;
+
+    const size = Number.parseInt(response.headers.get('content-length') || '') || 0;
+    return { body: Readable.fromWeb(response.body as WebReadableStream<Uint8Array>), size: size, contentType: contentTypeOf(name) };
+  }
+
+  public async store(id: string, folder: string) {
+    const prefix = this._key(id);
+    if (!prefix) throw new Error(`Invalid test id '${id}'`);
+
+    for (const chunk of _.chunk(await localFiles(folder), requestConcurrency)) {
+      await Promise.all(chunk.map(x => this._put(`${prefix}${x.name}`, {
+        body: Readable.toWeb(fs.createReadStream(path.join(folder, ...x.name.split('/')))) as ReadableStream,
+        payloadHash: unsignedPayload,
+        headers: { 'content-length': `${x.size}`, 'content-type': contentTypeOf(x.name) },
+      })));
+    }
+    await fsp.rm(folder, { recursive: true, force: true });
+  }
+
+  public async remove(id: string) {
+    const prefix = this._key(id);
+    const files = prefix ? (await this._list(prefix)).files : [];
+    for (const chunk of _.chunk(files, requestConcurrency)) {
+      await Promise.all(chunk.map(async x => {
+        const response = await this._request('DELETE', `${prefix}${x.name}`);
+        if (!response.ok && response.status !== 404) await this._fail(response, `delete of ${prefix}${x.name}`);
+      }));
+    }
+    return files.length > 0;
+  }
+}
+
+export function createStorage(type: StorageType, folder: string, options: S3StorageOptions): ResultStorage {
+  return type === StorageType.s3 ? new S3Storage(options) : new LocalStorage(folder);
+}
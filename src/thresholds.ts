@@ -0,0 +1,66 @@
+import { BadRequestError } from './errors';
+import { Threshold, ThresholdMetric, ThresholdOperator, ThresholdViolation, TestRunSummary, TestRunVerdict } from './interfaces';
+
+const metrics: ThresholdMetric[] = ['samples', 'errors', 'errorRate', 'min', 'max', 'mean', 'p50', 'p90', 'p95', 'p99', 'throughput'];
+const latencyMetrics: ThresholdMetric[] = ['min', 'max', 'mean', 'p50', 'p90', 'p95', 'p99'];
+const thresholdPattern = /^\s*(\w+)\s*(?:\((.+)\))?\s*(<=|>=|<|>)\s*(-?\d+(?:\.\d+)?)\s*(%|ms)?\s*$/;
+
+export function parseThreshold(rule: string): Threshold {
+  const match = thresholdPattern.exec(rule);
+  if (!match) {
+    throw new BadRequestError(`Invalid threshold '${rule}', expected e.g. 'p95(label) < 500' or 'errorRate < 1%'`);
+  }
+
+  const [, metric, label, operator, value, unit] = match;
+  if (!metrics.includes(metric as ThresholdMetric)) {
+    throw new BadRequestError(`Invalid threshold '${rule}', unknown metric '${metric}' (expected one of: ${metrics.join(', ')})`);
+  }
+
+  if (unit === '%' && metric !== 'errorRate') {
+    throw new BadRequestError(`Invalid threshold '${rule}', unit '%' is only allowed for errorRate`);
+  }
+  if (unit === 'ms' && !latencyMetrics.includes(metric as ThresholdMetric)) {
+    throw new BadRequestError(`Invalid threshold '${rule}', unit 'ms' is only allowed for latencies (${latencyMetrics.join(', ')})`);
+  }
+
+  const number = Number.parseFloat(value!);
+  return {
+    rule: rule.trim(),
+    metric: metric as ThresholdMetric,
+    label: label?.trim(),
+    operator: operator as ThresholdOperator,
+    value: unit === '%' ? number / 100 : number,
+  };
+}
+
+function compare(actual: number, operator: ThresholdOperator, expected: number) {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+export function evaluateThresholds(thresholds: Threshold[], summary: TestRunSummary | undefined) {
+  const violations: ThresholdViolation[] = [];
+  thresholds.forEach(threshold => {
+    if (!summary) {
+      violations.push({ threshold: threshold.rule, message: 'No results available' });
+      return;
+    }
+
+    const statistics = threshold.label === undefined ? summary.total : summary.labels.find(x => x.label === threshold.label);
+    if (!statistics) {
+      violations.push({ threshold: threshold.rule, message: `Label '${threshold.label}' not found in results` });
+      return;
+    }
+
+    const actual = statistics[threshold.metric];
+    if (!compare(actual, threshold.operator, threshold.value)) {
+      violations.push({ threshold: threshold.rule, actual: actual, message: `Expected ${threshold.metric} ${threshold.operator} ${threshold.value} but was ${actual}` });
+    }
+  });
+
+  return { verdict: violations.length ? TestRunVerdict.failed : TestRunVerdict.passed, violations: violations };
+}
@@ -0,0 +1,70 @@
+import cp from 'node:child_process';
+import dgram from 'node:dgram';
+
+import { TestRunStatus } from './interfaces';
+
+const shutdownCommand = 'Shutdown';
+const killDelayInMilliseconds = 10000;
+
+export class Watchdog {
+  private _timer: NodeJS.Timeout | undefined;
+  private _outcome: TestRunStatus | undefined;
+
+  constructor(private _id: string, private _process: cp.ChildProcess, public readonly port: number, private _gracePeriodInSeconds: number) { }
+
+  public get outcome() {
+    return this._outcome;
+  }
+
+  private _requestShutdown() {
+    const socket = dgram.createSocket('udp4');
+    socket.send(shutdownCommand, this.port, '127.0.0.1', error => {
+      if (error) {
+        console.warn(`[WARN] Cannot request shutdown of test ${this._id} on port ${this.port} because: ${error.message}`);
+      }
+      socket.close();
+    });
+  }
+
+  private _kill(signal: NodeJS.Signals) {
+    if (this._process.exitCode !== null || this._process.signalCode !== null) return;
+
+    console.warn(`[WARN] Test ${this._id} did not stop in time, sending ${signal} to pid ${this._process.pid}...`);
+    this._process.kill(signal);
+    if (signal === 'SIGTERM') {
+      this._timer = setTimeout(() => this._kill('SIGKILL'), killDelayInMilliseconds);
+    }
+  }
+
+  private _shutdown(outcome: TestRunStatus) {
+    this._outcome = outcome;
+    this._requestShutdown();
+    this._timer = setTimeout(() => this._kill('SIGTERM'), this._gracePeriodInSeconds * 1000);
+  }
+
+  private _expire(maxDurationInSeconds: number) {
+    console.warn(`[WARN] Test ${this._id} exceeded its maximum duration of ${maxDurationInSeconds} second(s), requesting shutdown...`);
+    this._shutdown(TestRunStatus.timedout);
+  }
+
+  public start(maxDurationInSeconds: number | undefined) {
+    if (maxDurationInSeconds) {
+      this._timer = setTimeout(() => this._expire(maxDurationInSeconds), maxDurationInSeconds * 1000);
+    }
+    return this;
+  }
+
+  public cancel() {
+    if (this._outcome) return false;
+
+    clearTimeout(this._timer);
+    console.warn(`[WARN] Test ${this._id} is cancelled, requesting shutdown...`);
+    this._shutdown(TestRunStatus.cancelled);
+    return true;
+  }
+
+  public stop() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+  }
+}
@@ -0,0 +1,74 @@
+import crypto from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookPayload } from './interfaces';
+
+export const signatureHeader = 'x-jmeter-runner-signature';
+export const eventHeader = 'x-jmeter-runner-event';
+
+const maxDeliveries = 1000;
+const requestTimeoutInMilliseconds = 10000;
+const initialBackoffInMilliseconds = 1000;
+
+export class WebhookNotifier {
+  private _deliveries: WebhookDelivery[] = [];
+
+  constructor(private _webhooks: Webhook[], private _retries: number, private _silent: boolean) { }
+
+  private _sign(secret: string, body: string) {
+    return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  private _log(delivery: WebhookDelivery) {
+    this._deliveries.unshift(delivery);
+    this._deliveries.splice(maxDeliveries);
+  }
+
+  private async _post(webhook: Webhook, event: WebhookEvent, body: string) {
+    const headers: { [key: string]: string } = { 'content-type': 'application/json', [eventHeader]: event };
+    if (webhook.secret) {
+      headers[signatureHeader] = this._sign(webhook.secret, body);
+    }
+    return fetch(webhook.url, { method: 'POST', headers: headers, body: body, signal: AbortSignal.timeout(requestTimeoutInMilliseconds) });
+  }
+
+  private async _deliver(webhook: Webhook, payload: WebhookPayload) {
+    const body = JSON.stringify(payload);
+    const delivery: WebhookDelivery = { id: uuidv4(), url: webhook.url, event: payload.event, timestamp: payload.timestamp, attempts: 0, status: WebhookDeliveryStatus.pending };
+    this._log(delivery);
+
+    for (let attempt = 0; attempt <= this._retries; attempt++) {
+      if (attempt) {
+        await new Promise(resolve => setTimeout(resolve, initialBackoffInMilliseconds * 2 ** (attempt - 1)));
+      }
+
+      delivery.attempts = attempt + 1;
+      try {
+        const response = await this._post(webhook, payload.event, body);
+        delivery.statusCode = response.status;
+        if (response.ok) {
+          delivery.status = WebhookDeliveryStatus.delivered;
+          delete delivery.error;
+          if (!this._silent) console.debug(`[DEBUG] Delivered ${payload.event} to ${webhook.url}`);
+          return;
+        }
+        delivery.error = `HTTP ${response.status} ${response.statusText}`;
+      } catch (error: any) {
+        delivery.error = error.message;
+      }
+    }
+
+    delivery.status = WebhookDeliveryStatus.failed;
+    console.warn(`[WARN] Failed to deliver ${payload.event} to ${webhook.url} after ${delivery.attempts} attempt(s): ${delivery.error}`);
+  }
+
+  public get deliveries(): WebhookDelivery[] {
+    return this._deliveries;
+  }
+
+  public notify(payload: WebhookPayload) {
+    this._webhooks
+      .filter(x => !x.events?.length || x.events.includes(payload.event))
+      .forEach(x => this._deliver(x, payload).catch(error => console.error(`[ERROR] Webhook delivery to ${x.url} failed because: `, error)));
+  }
+}
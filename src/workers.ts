@@ -0,0 +1,143 @@
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import net from 'node:net';
+import _ from 'lodash';
+
+import { BadRequestError } from './errors';
+import { JMeterWorker, JMeterWorkerStatus, WorkerHealth } from './interfaces';
+
+const defaultWorkerPort = 1099;
+
+const connectTimeoutInMilliseconds = 5000;
+const namePattern = /^[A-Za-z0-9_.-]+$/;
+
+export type WorkersChanged = () => void;
+
+// note: without workers, a test runs locally (i.e. without remote arguments)
+export function remoteArguments(workers: JMeterWorker[], rmiSsl: boolean): string[] {
+  if (!workers.length) return [];
+
+  const hosts = workers.map(x => `${x.host}:${x.port ?? defaultWorkerPort}`).join(',');
+  return ['-R', hosts, ...(rmiSsl ? [] : ['-Jserver.rmi.ssl.disable=true'])];
+}
+
+export class WorkerPool {
+  private _workers: { [key: string]: JMeterWorkerStatus } = {};
+  private _timer: NodeJS.Timeout | undefined;
+
+  constructor(private _file: string, private _healthIntervalInSeconds: number, private _silent: boolean, private _changed: WorkersChanged) { }
+
+  public static validate(worker: JMeterWorker): Required<JMeterWorker> {
+    if (!worker.name || !namePattern.test(worker.name)) {
+      throw new BadRequestError(`Invalid worker name '${worker.name ?? ''}' (expected letters, digits, '_', '.' or '-')`);
+    }
+    if (!worker.host) {
+      throw new BadRequestError(`Missing host for worker '${worker.name}'`);
+    }
+    const port = worker.port ?? defaultWorkerPort;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new BadRequestError(`Invalid port ${port} for worker '${worker.name}'`);
+    }
+    return { name: worker.name, host: worker.host, port: port };
+  }
+
+  private async _write() {
+    const workers = Object.values(this._workers).map(x => ({ name: x.name, host: x.host, port: x.port }));
+    await fsp.writeFile(this._file, JSON.stringify(workers), { encoding: 'utf8', flush: true });
+  }
+
+  private _probe(worker: Required<JMeterWorker>) {
+    return new Promise<string | undefined>(resolve => {
+      const socket = net.connect({ host: worker.host, port: worker.port, timeout: connectTimeoutInMilliseconds });
+      const done = (error?: string) => {
+        socket.destroy();
+        resolve(error);
+      };
+      socket.once('connect', () => done());
+      socket.once('timeout', () => done(`connection timed out after ${connectTimeoutInMilliseconds} ms`));
+      socket.once('error', error => done(error.message));
+    });
+  }
+
+  private async _check(name: string) {
+    const worker = this._workers[name];
+    if (!worker) return;
+
+    const error = await this._probe(worker);
+    const current = this._workers[name];
+    if (!current) return;
+
+    const health = error ? WorkerHealth.unhealthy : WorkerHealth.healthy;
+    if (health !== current.health) {
+      if (error) {
+        console.warn(`[WARN] Worker ${name} (${current.host}:${current.port}) is unhealthy because: ${error}`);
+      } else if (!this._silent) {
+        console.info(`[INFO] Worker ${name} (${current.host}:${current.port}) is healthy`);
+      }
+    }
+
+    const checked: JMeterWorkerStatus = { ..._.omit(current, 'error'), health: health, lastCheck: new Date().toISOString() };
+    if (error) {
+      checked.error = error;
+    }
+    this._workers[name] = checked;
+
+    if (health === WorkerHealth.healthy && current.health !== WorkerHealth.healthy) {
+      this._changed();
+    }
+  }
+
+  public async checkAll() {
+    await Promise.all(Object.keys(this._workers).map(x => this._check(x)));
+  }
+
+  public async initialize(configured: JMeterWorker[]) {
+    const stored: JMeterWorker[] = fs.existsSync(this._file) ? JSON.parse(await fsp.readFile(this._file, { encoding: 'utf8' })) : [];
+    [...stored, ...configured].map(x => WorkerPool.validate(x)).forEach(x => this._workers[x.name] = { ...x, health: WorkerHealth.unknown });
+    if (configured.length) {
+      await this._write();
+    }
+
+    if (Object.keys(this._workers).length && !this._silent) {
+      console.info(`[INFO] Using ${Object.keys(this._workers).length} worker(s): ${Object.keys(this._workers).join(', ')}`);
+    }
+
+    if (this._healthIntervalInSeconds) {
+      this._timer = setInterval(() => this.checkAll(), this._healthIntervalInSeconds * 1000).unref();
+    }
+    await this.checkAll();
+  }
+
+  public terminate() {
+    clearInterval(this._timer);
+    this._timer = undefined;
+  }
+
+  public get workers(): JMeterWorkerStatus[] {
+    return _.sortBy(Object.values(this._workers), x => x.name);
+  }
+
+  public get(name: string): JMeterWorkerStatus | undefined {
+    return this._workers[name];
+  }
+
+  public isHealthy(name: string) {
+    return this._workers[name]?.health === WorkerHealth.healthy;
+  }
+
+  public async register(worker: JMeterWorker): Promise<JMeterWorkerStatus> {
+    const validated = WorkerPool.validate(worker);
+    this._workers[validated.name] = { ...validated, health: WorkerHealth.unknown };
+    await this._write();
+    await this._check(validated.name);
+    return this._workers[validated.name]!;
+  }
+
+  public async unregister(name: string): Promise<boolean> {
+    if (!this._workers[name]) return false;
+
+    delete this._workers[name];
+    await this._write();
+    return true;
+  }
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { TestRun, TestRunStatus } from '../src/interfaces';
+import { estimateStartTimes, laneOf, selectRunnableTests } from '../src/lanes';
+
+const now = Date.parse('2026-01-01T00:00:00Z');
+const minute = 60000;
+
+function testRun(id: string, options: Partial<TestRun> = {}, status: TestRunStatus = TestRunStatus.queued): TestRun {
+  return { id: id, name: 'test', timestamp: new Date(now).toISOString(), status: status, ...options } as TestRun;
+}
+
+const healthy = () => true;
+
+describe('laneOf', () => {
+  it('uses the lane, else the category', () => {
+    assert.equal(laneOf(testRun('a', { lane: 'server', category: 'examples' })), 'server');
+    assert.equal(laneOf(testRun('a', { category: 'examples' })), 'examples');
+    assert.equal(laneOf(testRun('a')), undefined);
+    assert.equal(laneOf(testRun('a', { category: '' })), undefined);
+  });
+});
+
+describe('selectRunnableTests', () => {
+  it('starts test runs without lane together', () => {
+    const runnable = selectRunnableTests([], [testRun('a'), testRun('b'), testRun('c')], 2, healthy);
+    assert.deepEqual(runnable.map(x => x.id), ['a', 'b']);
+  });
+
+  it('starts a test run without lane next to a running one', () => {
+    const runnable = selectRunnableTests([testRun('a', {}, TestRunStatus.running)], [testRun('b')], 2, healthy);
+    assert.deepEqual(runnable.map(x => x.id), ['b']);
+  });
+
+  it('runs one test run at a time per lane', () => {
+    const running = [testRun('a', { category: 'examples' }, TestRunStatus.running)];
+    const queued = [testRun('b', { category: 'examples' }), testRun('c', { lane: 'other' }), testRun('d', { lane: 'other' })];
+    assert.deepEqual(selectRunnableTests(running, queued, 3, healthy).map(x => x.id), ['c']);
+  });
+
+  it('does not share workers nor use unhealthy ones', () => {
+    const running = [testRun('a', { workers: ['w1'] }, TestRunStatus.running)];
+    const queued = [testRun('b', { workers: ['w1'] }), testRun('c', { workers: ['w2'] }), testRun('d', { workers: ['w3'] }), testRun('e', { workers: ['w3'] })];
+    assert.deepEqual(selectRunnableTests(running, queued, 5, x => x !== 'w2').map(x => x.id), ['d']);
+  });
+});
+
+describe('estimateStartTimes', () => {
+  const duration = () => 10 * minute;
+
+  it('estimates test runs without lane in parallel slots', () => {
+    const estimates = estimateStartTimes([], [testRun('a'), testRun('b'), testRun('c')], 2, duration, now);
+    assert.deepEqual(estimates, {
+      a: new Date(now).toISOString(),
+      b: new Date(now).toISOString(),
+      c: new Date(now + 10 * minute).toISOString(),
+    });
+  });
+
+  it('estimates test runs of the same lane one after the other', () => {
+    const running = [testRun('a', { category: 'examples' }, TestRunStatus.running)];
+    const estimates = estimateStartTimes(running, [testRun('b', { category: 'examples' }), testRun('c')], 3, duration, now);
+    assert.deepEqual(estimates, {
+      b: new Date(now + 10 * minute).toISOString(),
+      c: new Date(now).toISOString(),
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import http from 'node:http';
+import net from 'node:net';
+import { buffer } from 'node:stream/consumers';
+
+import { S3StorageOptions } from '../src/interfaces';
+import { signRequest } from '../src/storage';
+
+interface StoredObject {
+  body: Buffer;
+  contentType: string | undefined;
+}
+
+function escape(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function error(response: http.ServerResponse, status: number, code: string) {
+  response.writeHead(status, { 'content-type': 'application/xml' });
+  response.end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`);
+}
+
+// note: a minimal MinIO-style stand-in keeping the objects of a single bucket in memory, which verifies the request signatures,
+//       requires a content length on uploads and pages the listings (pageSize keys per page)
+export class S3StandIn {
+  private _server = http.createServer((request, response) => this._handle(request, response));
+  public objects = new Map<string, StoredObject>();
+  public requests: string[] = [];
+  public stalled = false;
+
+  constructor(public readonly bucket: string, private _credentials: S3StorageOptions, private _pageSize: number = 2) { }
+
+  public get endpoint() {
+    return `http://127.0.0.1:${(this._server.address() as net.AddressInfo).port}`;
+  }
+
+  public async start() {
+    await new Promise<void>(resolve => this._server.listen(0, '127.0.0.1', resolve));
+  }
+
+  public async stop() {
+    await new Promise<void>(resolve => {
+      this._server.close(() => resolve());
+      this._server.closeAllConnections();
+    });
+  }
+
+  private _verify(request: http.IncomingMessage, url: URL) {
+    const authorization = request.headers.authorization || '';
+    const names = /SignedHeaders=([^,]+)/.exec(authorization)?.[1]?.split(';') || [];
+    const timestamp = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(String(request.headers['x-amz-date']));
+    if (!timestamp) return false;
+
+    const [, year, month, day, hours, minutes, seconds] = timestamp;
+    const headers: { [key: string]: string } = {};
+    names.filter(x => !['host', 'x-amz-content-sha256', 'x-amz-date'].includes(x)).forEach(x => headers[x] = String(request.headers[x]));
+    const now = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}Z`);
+    const expected = signRequest(request.method!, url, headers, String(request.headers['x-amz-content-sha256']), this._credentials, now);
+    return expected['authorization'] === authorization;
+  }
+
+  private _list(url: URL, response: http.ServerResponse) {
+    const prefix = url.searchParams.get('prefix') || '';
+    const delimiter = url.searchParams.get('delimiter');
+    const entries = new Set<string>();
+    [...this.objects.keys()].filter(x => x.startsWith(prefix)).sort().forEach(key => {
+      const rest = key.substring(prefix.length);
+      entries.add(delimiter && rest.includes(delimiter) ? `${prefix}${rest.split(delimiter)[0]}${delimiter}` : key);
+    });
+
+    const start = Number.parseInt(url.searchParams.get('continuation-token') || '0');
+    const page = [...entries].slice(start, start + this._pageSize);
+    const truncated = start + this._pageSize < entries.size;
+    const contents = page.filter(x => this.objects.has(x)).map(x => `<Contents><Key>${escape(x)}</Key><Size>${this.objects.get(x)!.body.length}</Size></Contents>`);
+    const prefixes = page.filter(x => !this.objects.has(x)).map(x => `<CommonPrefixes><Prefix>${escape(x)}</Prefix></CommonPrefixes>`);
+    response.writeHead(200, { 'content-type': 'application/xml' });
+    response.end(`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${this.bucket}</Name><IsTruncated>${truncated}</IsTruncated>${truncated ? `<NextContinuationToken>${start + this._pageSize}</NextContinuationToken>` : ''}${contents.join('')}${prefixes.join('')}</ListBucketResult>`);
+  }
+
+  private async _handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const body = await buffer(request);
+    const url = new URL(request.url!, `http://${request.headers.host}`);
+    this.requests.push(`${request.method} ${url.pathname}${url.search}`);
+    if (this.stalled) return;
+    if (!this._verify(request, url)) return error(response, 403, 'SignatureDoesNotMatch');
+
+    const [bucket, ...key] = url.pathname.substring(1).split('/').map(x => decodeURIComponent(x));
+    if (bucket !== this.bucket) return error(response, 404, 'NoSuchBucket');
+
+    const name = key.join('/');
+    switch (request.method) {
+      case 'GET': {
+        if (url.searchParams.get('list-type') === '2') return this._list(url, response);
+
+        const found = this.objects.get(name);
+        if (!found) return error(response, 404, 'NoSuchKey');
+        response.writeHead(200, { 'content-type': found.contentType || 'application/octet-stream', 'content-length': found.body.length });
+        return response.end(found.body);
+      }
+      case 'PUT': {
+        if (request.headers['content-length'] === undefined) return error(response, 411, 'MissingContentLength');
+        this.objects.set(name, { body: body, contentType: request.headers['content-type'] });
+        response.writeHead(200);
+        return response.end();
+      }
+      case 'DELETE': {
+        this.objects.delete(name);
+        response.writeHead(204);
+        return response.end();
+      }
+      default:
+        return error(response, 405, 'MethodNotAllowed');
+    }
+  }
+}
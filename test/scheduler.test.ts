@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+
+import { Scheduler } from '../src/scheduler';
+
+interface ArmedTimer {
+  callback: () => void;
+  delay: number;
+}
+
+const start = Date.parse('2026-01-01T00:00:00Z');
+const minute = 60000;
+
+// note: Date is mocked, so wait (at most 5 seconds) using the performance clock
+async function waitFor(condition: () => boolean) {
+  const deadline = performance.now() + 5000;
+  while (!condition() && performance.now() < deadline) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  assert.ok(condition());
+}
+
+describe('Scheduler', () => {
+  let folder: string;
+  let timers: ArmedTimer[];
+
+  before(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'schedules-'));
+  });
+
+  after(() => {
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    // note: capture the timers to fire them when we want, while controlling the current time
+    timers = [];
+    mock.timers.enable({ apis: ['Date'], now: start });
+    mock.method(globalThis, 'setTimeout', (callback: () => void, delay: number) => {
+      timers.push({ callback: callback, delay: delay });
+      return { unref: function () { return this; } };
+    });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  it('arms the next run of the schedule', async () => {
+    const scheduler = new Scheduler(folder, async () => ({ id: 'run' }));
+    const schedule = await scheduler.create('<jmeterTestPlan/>', 'test', { cron: '* * * * *' }, []);
+    assert.equal(schedule.nextRun, new Date(start + minute).toISOString());
+    assert.equal(timers.length, 1);
+    assert.equal(timers[0]!.delay, minute);
+  });
+
+  it('fires once for a timer which fires early', async () => {
+    const triggered: string[] = [];
+    const scheduler = new Scheduler(folder, async schedule => {
+      triggered.push(schedule.id);
+      return { id: `run-${triggered.length}` };
+    });
+    await scheduler.create('<jmeterTestPlan/>', 'test', { cron: '* * * * *' }, []);
+
+    mock.timers.setTime(start + minute - 5);
+    timers[0]!.callback();
+    await waitFor(() => timers.length === 2);
+
+    assert.equal(triggered.length, 1);
+    assert.equal(timers[1]!.delay, minute + 5);
+  });
+
+  it('skips the runs missed while firing late', async () => {
+    const scheduler = new Scheduler(folder, async () => ({ id: 'run' }));
+    await scheduler.create('<jmeterTestPlan/>', 'test', { cron: '* * * * *' }, []);
+
+    mock.timers.setTime(start + 3 * minute + 10);
+    timers[0]!.callback();
+    await waitFor(() => timers.length === 2);
+
+    assert.equal(timers[1]!.delay, minute - 10);
+  });
+});
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { BadRequestError } from '../src/errors';
+import { WorkerHealth } from '../src/interfaces';
+import { WorkerPool, remoteArguments } from '../src/workers';
+
+// note: a local stand-in for a jmeter worker, i.e. a TCP listener which can be stopped and restarted on the same port
+class WorkerStandIn {
+  private _server: net.Server | undefined;
+  public port = 0;
+
+  public async start() {
+    const server = net.createServer(socket => socket.destroy());
+    await new Promise<void>(resolve => server.listen(this.port, '127.0.0.1', resolve));
+    this.port = (server.address() as net.AddressInfo).port;
+    this._server = server;
+  }
+
+  public async stop() {
+    await new Promise<void>(resolve => this._server ? this._server.close(() => resolve()) : resolve());
+    this._server = undefined;
+  }
+}
+
+describe('WorkerPool', () => {
+  let folder: string;
+  let worker: WorkerStandIn;
+
+  before(async () => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), 'workers-'));
+    worker = new WorkerStandIn();
+    await worker.start();
+  });
+
+  after(async () => {
+    await worker.stop();
+    fs.rmSync(folder, { recursive: true, force: true });
+  });
+
+  it('tracks the health of a worker and notifies when it becomes healthy', async () => {
+    let changed = 0;
+    const pool = new WorkerPool(path.join(folder, 'health.json'), 0, true, () => changed++);
+    await pool.initialize([]);
+
+    const registered = await pool.register({ name: 'worker-1', host: '127.0.0.1', port: worker.port });
+    assert.equal(registered.health, WorkerHealth.healthy);
+    assert.equal(pool.isHealthy('worker-1'), true);
+    assert.equal(changed, 1);
+
+    await worker.stop();
+    await pool.checkAll();
+    assert.equal(pool.get('worker-1')?.health, WorkerHealth.unhealthy);
+    assert.ok(pool.get('worker-1')?.error);
+    assert.equal(pool.isHealthy('worker-1'), false);
+    assert.equal(changed, 1);
+
+    await worker.start();
+    await pool.checkAll();
+    assert.equal(pool.get('worker-1')?.health, WorkerHealth.healthy);
+    assert.equal(pool.get('worker-1')?.error, undefined);
+    assert.equal(changed, 2);
+
+    await pool.checkAll();
+    assert.equal(changed, 2);
+    pool.terminate();
+  });
+
+  it('persists the registered workers', async () => {
+    const file = path.join(folder, 'persisted.json');
+    const pool = new WorkerPool(file, 0, true, () => { });
+    await pool.initialize([{ name: 'configured', host: '127.0.0.1', port: worker.port }]);
+    await pool.register({ name: 'registered', host: '127.0.0.1', port: worker.port });
+    assert.equal(await pool.unregister('configured'), true);
+    assert.equal(await pool.unregister('unknown'), false);
+    pool.terminate();
+
+    const restored = new WorkerPool(file, 0, true, () => { });
+    await restored.initialize([]);
+    assert.deepEqual(restored.workers.map(x => x.name), ['registered']);
+    restored.terminate();
+  });
+
+  it('rejects invalid workers', () => {
+    assert.throws(() => WorkerPool.validate({ name: 'bad name', host: 'localhost' }), BadRequestError);
+    assert.throws(() => WorkerPool.validate({ name: 'worker', host: '' }), BadRequestError);
+    assert.throws(() => WorkerPool.validate({ name: 'worker', host: 'localhost', port: 70000 }), BadRequestError);
+    assert.deepEqual(WorkerPool.validate({ name: 'worker', host: 'localhost' }), { name: 'worker', host: 'localhost', port: 1099 });
+  });
+});
+
+describe('remoteArguments', () => {
+  it('runs locally without workers', () => {
+    assert.deepEqual(remoteArguments([], false), []);
+  });
+
+  it('passes the workers as host:port to -R and disables RMI SSL by default', () => {
+    const workers = [{ name: 'a', host: '10.0.0.1', port: 1099 }, { name: 'b', host: 'worker-b', port: 2099 }];
+    assert.deepEqual(remoteArguments(workers, false), ['-R', '10.0.0.1:1099,worker-b:2099', '-Jserver.rmi.ssl.disable=true']);
+    assert.deepEqual(remoteArguments(workers, true), ['-R', '10.0.0.1:1099,worker-b:2099']);
+  });
+
+  it('uses the default port when none is given', () => {
+    assert.deepEqual(remoteArguments([{ name: 'a', host: 'worker-a' }], true), ['-R', 'worker-a:1099']);
+  });
+});